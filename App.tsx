@@ -2,13 +2,59 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import FileUpload from './components/FileUpload';
 import DataTable from './components/DataTable';
-import { ExcelIcon, ProcessingIcon, ErrorIcon, SunIcon, MoonIcon, CheckCircleIcon, XCircleIcon, QueueListIcon, RetryIcon, DocumentIcon, SearchIcon, TrashIcon, DownloadIcon, BroomIcon, BoltIcon, TurtleIcon, ChevronLeftIcon, ChevronRightIcon, SaveIcon, Cog6ToothIcon, DocumentIconPortrait, DocumentIconLandscape, PencilIcon } from './components/icons';
-import { extractDataFromPdfImages } from './services/geminiService';
-import type { ProcessJob, ProcessJobStatus, SheetData, ConversionMode, PdfOptions, CellData, CellStyle } from './types';
+import TemplateManagerModal from './components/TemplateManagerModal';
+import CsvOptionsModal from './components/CsvOptionsModal';
+import TargetWorkbookModal from './components/TargetWorkbookModal';
+import HistoryPanel from './components/HistoryPanel';
+import { ExcelIcon, ProcessingIcon, ErrorIcon, SunIcon, MoonIcon, CheckCircleIcon, XCircleIcon, QueueListIcon, RetryIcon, DocumentIcon, SearchIcon, TrashIcon, DownloadIcon, BroomIcon, BoltIcon, TurtleIcon, ChevronLeftIcon, ChevronRightIcon, SaveIcon, UndoIcon, RedoIcon, Cog6ToothIcon, DocumentIconPortrait, DocumentIconLandscape, PencilIcon, XMarkIcon } from './components/icons';
+import { extractDataFromPdfImages, extractFormFields, getExtractionProvider } from './services/extractionService';
+import { extractTableFromTextItems, buildSheetsFromPageTables } from './services/textLayerExtractor';
+import { headersMatch, getMergeRanges, getCellRef } from './services/sheetUtils';
+import { createHistory, pushHistory, jumpToHistory, getCurrentSheets, canUndo, canRedo, moveViewColumns, remapViewsForJump, type EditHistory, type ColumnMove } from './services/editHistory';
+import { ExtractionError, classifyError, throwIfCancelled, ERROR_CODE_LABELS } from './services/extractionErrors';
+import { loadTemplates, saveTemplates, conformSheetToTemplate } from './services/templateService';
+import { buildFormSheet, buildConsolidatedFormSheet, readFormSheet } from './services/formService';
+import { DEFAULT_CSV_OPTIONS, sheetToDelimitedText, createDelimitedBlob, isDelimitedFileName, readDelimitedFile } from './services/csvService';
+import { sheetsToJson, sheetToNdjson, buildSheetJsonSchema } from './services/jsonExportService';
+import { createOdsBlob } from './services/odsWriter';
+import { createDocxBlob } from './services/docxWriter';
+import { IMAGE_ACCEPT, isImageFile, openImageDocument } from './services/imageInput';
+import { createPdfFromSheets } from './services/pdfRenderer';
+import { sheetsToMarkdown, createHtmlDocument } from './services/markupExportService';
+import { sanitizeSheetName, addSheetToWorkbook, openTargetWorkbook } from './services/workbookMerge';
+import { buildBatchSheets } from './services/batchWorkbook';
+import { applyStructuralEdit, describeStructuralEdit, getColumnMap } from './services/sheetStructure';
+import { applySheetView, isViewActive } from './services/sheetView';
+import { compileFindPattern, replaceMatches } from './services/findReplace';
+import { evaluateFormulas, resolveFormulas, toExcelFormula } from './services/formulaEngine';
+import type { FormulaErrorCode } from './services/formulaEngine';
+import { readXlsxCellStyles } from './services/workbookStyleReader';
+import { inferColumnTypes, toWorkbookValue, getExcelNumberFormat, findCurrencySymbol, toExcelSerialDate, getDefaultLocale, SUPPORTED_LOCALES } from './services/valueParser';
+import type { ProcessJob, ProcessJobStatus, SheetData, ConversionMode, PdfOptions, CellData, CellStyle, RawSheetData, CellMerge, ColumnType, ExtractionTemplate, FormLayout, ExportFormat, CsvOptions, TargetWorkbook, BatchLayout, StructuralEdit, SheetView, FindMatch, FindOptions } from './types';
 
 const MAX_CONCURRENT_JOBS = 3;
 const ITEMS_PER_PAGE = 10;
 const DEFAULT_PDF_OPTIONS: PdfOptions = { orientation: 'p', fontSize: 10, autoWidth: true };
+const SOURCE_EXTENSION = /\.(pdf|png|jpe?g|tiff?)$/i;
+const SPREADSHEET_EXTENSION = /\.(xlsx|xls|ods|csv|tsv|txt)$/i;
+const MAX_THUMBNAILS = 5;
+// Scans are usually 300 dpi; this keeps pages close to the size PDFs are rendered at.
+const MAX_SCAN_DIMENSION = 2000;
+
+// SheetJS stores error cells by their BIFF error number.
+const EXCEL_ERROR_VALUES: Record<Exclude<FormulaErrorCode, '#ERROR!'>, number> = { '#DIV/0!': 0x07, '#VALUE!': 0x0F, '#REF!': 0x17, '#NAME?': 0x1D };
+const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = { xlsx: 'Excel', ods: 'OpenDocument', csv: 'CSV', tsv: 'TSV', json: 'JSON', ndjson: 'NDJSON', md: 'Markdown', html: 'HTML', docx: 'Word' };
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers start the download after click() returns, so the URL must outlive this call.
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
 
 type Selection = {
   start: { row: number, col: number };
@@ -94,6 +140,7 @@ const App: React.FC = () => {
               ...job,
               status: 'error',
               errorMessage: 'Processing was interrupted. Please re-upload to retry.',
+              errorCode: 'interrupted',
               file: undefined
             };
           }
@@ -108,16 +155,46 @@ const App: React.FC = () => {
   });
   
   const [activeJobsCount, setActiveJobsCount] = useState(0);
+  // One controller per processing job. A job that is cancelled is removed here, which frees its slot.
+  const abortControllers = useRef(new Map<string, AbortController>());
   const [currentlyViewing, setCurrentlyViewing] = useState<ProcessJob | null>(null);
   const [isEditingData, setIsEditingData] = useState(false);
-  const [editedData, setEditedData] = useState<SheetData[] | null>(null);
+  const [editHistory, setEditHistory] = useState<EditHistory | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [sheetViews, setSheetViews] = useState<Record<number, SheetView>>({});
   const [searchQuery, setSearchQuery] = useState('');
   const [showDownloadConfirm, setShowDownloadConfirm] = useState(false);
   const [selectedJobIds, setSelectedJobIds] = useState<Set<string>>(new Set());
   const [currentPage, setCurrentPage] = useState(1);
   const [editingOptionsForJobId, setEditingOptionsForJobId] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>(loadTemplates);
+  const [showTemplateManager, setShowTemplateManager] = useState(false);
   const selectAllCheckboxRef = useRef<HTMLInputElement>(null);
   
+  const extractionProvider = useMemo(() => getExtractionProvider(), []);
+  
+  const [locale, setLocale] = useState(() => localStorage.getItem('number-locale') || getDefaultLocale());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>(() => {
+    const saved = localStorage.getItem('export-format');
+    return saved && Object.hasOwn(EXPORT_FORMAT_LABELS, saved) ? saved as ExportFormat : 'xlsx';
+  });
+  const [csvOptions, setCsvOptions] = useState<CsvOptions>(() => {
+    try {
+      return { ...DEFAULT_CSV_OPTIONS, ...JSON.parse(localStorage.getItem('csv-options') || '{}') };
+    } catch {
+      return DEFAULT_CSV_OPTIONS;
+    }
+  });
+  const [showCsvOptions, setShowCsvOptions] = useState(false);
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const [targetWorkbook, setTargetWorkbook] = useState<TargetWorkbook | null>(null);
+  const [showTargetWorkbook, setShowTargetWorkbook] = useState(false);
+  const [batchLayout, setBatchLayout] = useState<BatchLayout>(() => {
+    const saved = localStorage.getItem('batch-layout');
+    return saved === 'tab-per-file' || saved === 'tab-per-sheet' ? saved : 'separate';
+  });
+  const [formLayout, setFormLayout] = useState<FormLayout>(() => localStorage.getItem('form-layout') === 'one-row' ? 'one-row' : 'two-column');
+
   const [theme, setTheme] = useState(() => {
     if (typeof window === 'undefined') return 'light';
     if (localStorage.theme === 'dark' || (!('theme' in localStorage) && window.matchMedia('(prefers-color-scheme: dark)').matches)) {
@@ -126,7 +203,11 @@ const App: React.FC = () => {
     return 'light';
   });
 
-  const successfulJobsCount = useMemo(() => jobs.filter(j => j.status === 'success' && j.conversionMode === 'pdf-to-excel').length, [jobs]);
+  const successfulJobsCount = useMemo(() => jobs.filter(j => j.status === 'success' && j.conversionMode !== 'excel-to-pdf').length, [jobs]);
+  const successfulFormJobs = useMemo(() => jobs.filter(j => j.status === 'success' && j.conversionMode === 'form-to-excel' && j.formFields), [jobs]);
+  const extractedSheetNames = useMemo(() => Array.from(new Set(
+    jobs.filter(j => j.status === 'success' && j.conversionMode !== 'excel-to-pdf').flatMap(j => (j.extractedSheets ?? []).map(s => s.sheetName))
+  )), [jobs]);
 
   useEffect(() => {
     try {
@@ -148,17 +229,59 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
+  useEffect(() => {
+    localStorage.setItem('number-locale', locale);
+  }, [locale]);
+
+  useEffect(() => {
+    localStorage.setItem('form-layout', formLayout);
+  }, [formLayout]);
+
+  useEffect(() => {
+    localStorage.setItem('batch-layout', batchLayout);
+  }, [batchLayout]);
+
+  useEffect(() => {
+    localStorage.setItem('export-format', exportFormat);
+    localStorage.setItem('csv-options', JSON.stringify(csvOptions));
+  }, [exportFormat, csvOptions]);
+
+  useEffect(() => {
+    saveTemplates(templates);
+  }, [templates]);
+
   const toggleTheme = useCallback(() => {
     setTheme(prevTheme => (prevTheme === 'dark' ? 'light' : 'dark'));
   }, []);
 
+  const abortJobs = useCallback((jobIds: Iterable<string>) => {
+    let freed = 0;
+    for (const id of jobIds) {
+      const controller = abortControllers.current.get(id);
+      if (!controller) continue;
+      abortControllers.current.delete(id);
+      controller.abort();
+      freed++;
+    }
+    if (freed > 0) setActiveJobsCount(prev => prev - freed);
+  }, []);
+
+  const cancelJobs = useCallback((jobIds: string[]) => {
+    abortJobs(jobIds);
+    setJobs(prev => prev.map(j => jobIds.includes(j.id) && (j.status === 'processing' || j.status === 'queued')
+      ? { ...j, status: 'cancelled', progressMessage: undefined }
+      : j
+    ));
+  }, [abortJobs]);
+
   const handleClearAll = useCallback(() => {
+    abortJobs(Array.from(abortControllers.current.keys()));
     setJobs([]);
     setSearchQuery('');
     setCurrentlyViewing(null);
     setSelectedJobIds(new Set());
     setCurrentPage(1);
-  }, []);
+  }, [abortJobs]);
 
   const switchConversionMode = useCallback((mode: ConversionMode) => {
     if (mode !== conversionMode) {
@@ -168,6 +291,19 @@ const App: React.FC = () => {
   }, [conversionMode, handleClearAll]);
   
   const generatePdfThumbnail = useCallback(async (file: File): Promise<{ urls: string[] | null; pageCount: number }> => {
+    if (isImageFile(file)) {
+      try {
+        const doc = await openImageDocument(file);
+        const urls: string[] = [];
+        for (let i = 1; i <= Math.min(MAX_THUMBNAILS, doc.pageCount); i++) {
+          urls.push((await doc.renderPage(i, 300)).toDataURL('image/jpeg', 0.8));
+        }
+        return { urls, pageCount: doc.pageCount };
+      } catch (error) {
+        console.error(`Failed to generate thumbnail for ${file.name}:`, error);
+        return { urls: null, pageCount: 0 };
+      }
+    }
     const fileReader = new FileReader();
     return new Promise((resolve) => {
       fileReader.onload = async (event) => {
@@ -179,9 +315,7 @@ const App: React.FC = () => {
           const pdf = await pdfjsLib.getDocument({ data: event.target.result }).promise;
           const pageCount = pdf.numPages;
           const urls: string[] = [];
-          const MAX_THUMBNAILS = Math.min(5, pageCount);
-
-          for (let i = 1; i <= MAX_THUMBNAILS; i++) {
+          for (let i = 1; i <= Math.min(MAX_THUMBNAILS, pageCount); i++) {
             try {
                 const page = await pdf.getPage(i);
                 const viewport = page.getViewport({ scale: 0.5 });
@@ -256,7 +390,7 @@ const App: React.FC = () => {
     
     setSelectedJobIds(new Set());
 
-    if (conversionMode === 'pdf-to-excel') {
+    if (conversionMode !== 'excel-to-pdf') {
         newJobs.forEach(async (job) => {
             if (!job.file) return;
             const { urls, pageCount } = await generatePdfThumbnail(job.file);
@@ -296,28 +430,64 @@ const App: React.FC = () => {
     return Array.from(pages).sort((a, b) => a - b);
   }, []);
 
-  const convertPdfToImages = useCallback(async (file: File, pageRange: string, onProgress: (message: string) => void): Promise<string[]> => {
+  const convertPdfToImages = useCallback(async (
+    file: File,
+    pageRange: string,
+    onProgress: (message: string) => void,
+    { useTextLayer = true, signal }: { useTextLayer?: boolean; signal?: AbortSignal } = {}
+  ): Promise<{ images: string[]; imagePageNumbers: number[]; textSheets: RawSheetData[] }> => {
+    if (isImageFile(file)) {
+      const doc = await openImageDocument(file);
+      const pagesToConvert = parsePageRange(pageRange, doc.pageCount);
+      if (pagesToConvert.length === 0) onProgress("No pages selected for conversion.");
+      const images: string[] = [];
+      for (let i = 0; i < pagesToConvert.length; i++) {
+        throwIfCancelled(signal);
+        onProgress(`Converting page ${i + 1} of ${pagesToConvert.length}...`);
+        const canvas = await doc.renderPage(pagesToConvert[i], MAX_SCAN_DIMENSION);
+        images.push(canvas.toDataURL('image/jpeg').split(',')[1]);
+      }
+      // Scans have no text layer, so every page goes to the extraction provider.
+      return { images, imagePageNumbers: pagesToConvert, textSheets: [] };
+    }
     const fileReader = new FileReader();
     return new Promise((resolve, reject) => {
         fileReader.onload = async (event) => {
             if (!event.target?.result) {
-                return reject(new Error("Failed to read file."));
+                return reject(new ExtractionError('invalid_document', "Failed to read file."));
             }
             try {
+                throwIfCancelled(signal);
                 // @ts-ignore
-                const pdf = await pdfjsLib.getDocument({ data: event.target.result }).promise;
+                const loadingTask = pdfjsLib.getDocument({ data: event.target.result });
+                // Destroying the document stops any page that is still rendering.
+                signal?.addEventListener('abort', () => loadingTask.destroy(), { once: true });
+                const pdf = await loadingTask.promise;
                 const pagesToConvert = parsePageRange(pageRange, pdf.numPages);
                 
                 if (pagesToConvert.length === 0) {
                     onProgress("No pages selected for conversion.");
-                    return resolve([]);
+                    return resolve({ images: [], imagePageNumbers: [], textSheets: [] });
                 }
 
                 const images: string[] = [];
+                const imagePageNumbers: number[] = [];
+                const pageTables: { pageNum: number; table: string[][] }[] = [];
                 for (let i = 0; i < pagesToConvert.length; i++) {
+                    throwIfCancelled(signal);
                     const pageNum = pagesToConvert[i];
-                    onProgress(`Converting page ${i + 1} of ${pagesToConvert.length}...`);
+                    if (useTextLayer) onProgress(`Reading text of page ${i + 1} of ${pagesToConvert.length}...`);
                     const page = await pdf.getPage(pageNum);
+                    if (useTextLayer) {
+                        const textContent = await page.getTextContent();
+                        const table = extractTableFromTextItems(textContent.items);
+                        if (table) {
+                            pageTables.push({ pageNum, table });
+                            continue;
+                        }
+                    }
+
+                    onProgress(`Converting page ${i + 1} of ${pagesToConvert.length}...`);
                     const viewport = page.getViewport({ scale: 2.0 });
                     const canvas = document.createElement('canvas');
                     const context = canvas.getContext('2d');
@@ -329,85 +499,228 @@ const App: React.FC = () => {
                     await page.render({ canvasContext: context, viewport: viewport }).promise;
                     const dataUrl = canvas.toDataURL('image/jpeg');
                     images.push(dataUrl.split(',')[1]);
+                    imagePageNumbers.push(pageNum);
                 }
-                resolve(images);
+                resolve({ images, imagePageNumbers, textSheets: buildSheetsFromPageTables(pageTables) });
             } catch (error) {
+                if (signal?.aborted) {
+                    return reject(new ExtractionError('cancelled', "The conversion was cancelled."));
+                }
                 console.error("Error converting PDF to images:", error);
                 if (error instanceof Error && error.name === 'PasswordException') {
-                    reject(new Error("The PDF is password-protected and cannot be processed."));
+                    reject(new ExtractionError('invalid_document', "The PDF is password-protected and cannot be processed."));
                 } else {
-                    reject(new Error("Failed to convert PDF to images. The file might be corrupted."));
+                    reject(new ExtractionError('invalid_document', "Failed to convert PDF to images. The file might be corrupted."));
                 }
             }
         };
-        fileReader.onerror = () => reject(new Error("Failed to read the PDF file."));
+        fileReader.onerror = () => reject(new ExtractionError('invalid_document', "Failed to read the PDF file."));
         fileReader.readAsArrayBuffer(file);
     });
   }, [parsePageRange]);
 
-  const readExcelData = useCallback(async (file: File): Promise<{ sheetName: string, data: string[][] }[]> => {
+  const readExcelData = useCallback(async (file: File): Promise<RawSheetData[]> => {
+    if (isDelimitedFileName(file.name)) {
+      try {
+        const sheet = await readDelimitedFile(file);
+        return sheet.data.length > 0 ? [sheet] : [];
+      } catch (error) {
+        console.error("Error reading delimited file:", error);
+        throw new ExtractionError('invalid_document', "The CSV file could not be read.");
+      }
+    }
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = (e) => {
+      reader.onload = async (e) => {
         try {
-          const data = e.target?.result;
+          const data = e.target?.result as ArrayBuffer;
+          // cellNF keeps number format codes and cellStyles makes SheetJS read column widths.
           // @ts-ignore
-          const workbook = XLSX.read(data, { type: 'array' });
-          const sheets: { sheetName: string, data: string[][] }[] = workbook.SheetNames.map((sheetName: string) => {
+          const workbook = XLSX.read(data, { type: 'array', cellNF: true, cellStyles: true });
+          const workbookStyles = await readXlsxCellStyles(data);
+          const sheets: RawSheetData[] = workbook.SheetNames.map((sheetName: string) => {
             const worksheet = workbook.Sheets[sheetName];
             // @ts-ignore
-            const jsonData: string[][] = XLSX.utils.sheet_to_aoa(worksheet);
-            return { sheetName, data: jsonData };
+            const jsonData: string[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: '', raw: false });
+            const sheet: RawSheetData = { sheetName, data: jsonData };
+            if (!worksheet['!ref'] || jsonData.length === 0) return sheet;
+
+            // Rows and columns of the array start at the top-left of the sheet's used range.
+            // @ts-ignore
+            const range = XLSX.utils.decode_range(worksheet['!ref']);
+            // @ts-ignore
+            const refAt = (r: number, c: number): string => XLSX.utils.encode_cell({ r: range.s.r + r, c: range.s.c + c });
+
+            const cellStyles = workbookStyles.get(sheetName);
+            if (cellStyles && cellStyles.size > 0) {
+              sheet.styles = jsonData.map((row, r) => row.map((_, c) => cellStyles.get(refAt(r, c)) ?? null));
+            }
+            const numberFormats = jsonData.map((row, r) => row.map((_, c) => {
+              const source = worksheet[refAt(r, c)];
+              return source?.t === 'n' && source.z && source.z !== 'General' ? String(source.z) : null;
+            }));
+            if (numberFormats.some(row => row.some(Boolean))) sheet.numberFormats = numberFormats;
+
+            const merges = (worksheet['!merges'] || [])
+              .map((m: { s: { r: number; c: number }; e: { r: number; c: number } }) => ({
+                row: m.s.r - range.s.r,
+                col: m.s.c - range.s.c,
+                rowSpan: m.e.r - m.s.r + 1,
+                colSpan: m.e.c - m.s.c + 1,
+              }))
+              .filter((m: CellMerge) => m.row >= 0 && m.col >= 0 && m.row < jsonData.length);
+            if (merges.length > 0) sheet.merges = merges;
+
+            const cols: ({ wch?: number; wpx?: number; hidden?: boolean } | undefined)[] = worksheet['!cols'] || [];
+            if (cols.some(Boolean)) {
+              const columnCount = Math.max(...jsonData.map(row => row.length));
+              // SheetJS measures a character as 7 pixels; 8.43 is Excel's default column width.
+              sheet.columnWidths = Array.from({ length: columnCount }, (_, c) => {
+                const col = cols[range.s.c + c];
+                const width = col?.wch ?? (col?.wpx ? col.wpx / 7 : undefined);
+                return Math.round((width ?? 8.43) * 100) / 100;
+              });
+            }
+            return sheet;
           });
           resolve(sheets.filter(s => s.data.length > 0));
         } catch (error) {
-          reject(error);
+          console.error("Error reading spreadsheet:", error);
+          reject(new ExtractionError('invalid_document', "The spreadsheet could not be read. The file might be corrupted."));
         }
       };
-      reader.onerror = (error) => reject(error);
+      reader.onerror = () => reject(new ExtractionError('invalid_document', "Failed to read the spreadsheet file."));
       reader.readAsArrayBuffer(file);
     });
   }, []);
 
-  const convertRawSheetsToRich = (rawSheets: {sheetName: string; data: string[][]}[]): SheetData[] => {
-    return rawSheets.map(sheet => ({
-        ...sheet,
-        data: sheet.data.map(row => row.map(cellValue => ({ value: cellValue, style: {} })))
-    }));
+  const convertRawSheetsToRich = (rawSheets: RawSheetData[], sheetLocale: string): SheetData[] => {
+    return rawSheets.map(sheet => {
+        const data = sheet.data.map((row, r) => row.map((cellValue, c) => {
+            const cell: CellData = { value: cellValue, style: { ...sheet.styles?.[r]?.[c] } };
+            const numberFormat = sheet.numberFormats?.[r]?.[c];
+            if (numberFormat) cell.numberFormat = numberFormat;
+            const confidence = sheet.confidence?.[r]?.[c];
+            const sourceBox = sheet.sourceBoxes?.[r]?.[c];
+            if (confidence != null) cell.confidence = confidence;
+            if (sourceBox) cell.sourceBox = sourceBox;
+            return cell;
+        }));
+        sheet.merges?.forEach(({ row, col, rowSpan, colSpan }) => {
+            const anchor = data[row]?.[col];
+            if (!anchor) return;
+            if (rowSpan > 1) anchor.rowSpan = rowSpan;
+            if (colSpan > 1) anchor.colSpan = colSpan;
+        });
+        const headerRowCount = sheet.headerRowCount ?? 1;
+        return {
+            sheetName: sheet.sheetName,
+            data,
+            columnTypes: inferColumnTypes(data, sheetLocale, headerRowCount),
+            locale: sheetLocale,
+            ...(headerRowCount > 1 && { headerRowCount }),
+            ...(sheet.columnWidths && { columnWidths: sheet.columnWidths }),
+        };
+    });
   };
 
   const processJob = useCallback(async (jobToProcess: ProcessJob) => {
     if (!jobToProcess || !jobToProcess.file) {
-      setJobs(prev => prev.map(j => j.id === jobToProcess.id ? { ...j, status: 'error', errorMessage: 'File not available. Please re-upload to process.' } : j));
+      setJobs(prev => prev.map(j => j.id === jobToProcess.id ? { ...j, status: 'error', errorMessage: 'File not available. Please re-upload to process.', errorCode: 'interrupted' } : j));
       return;
     }
 
     const jobId = jobToProcess.id;
+    const template = templates.find(t => t.id === jobToProcess.templateId);
+    const controller = new AbortController();
+    const { signal } = controller;
+    abortControllers.current.set(jobId, controller);
     setActiveJobsCount(prev => prev + 1);
+    setJobs(prev => prev.map(j => j.id === jobId ? { ...j, attempts: 1 } : j));
 
     try {
       if (jobToProcess.conversionMode === 'pdf-to-excel') {
-          const images = await convertPdfToImages(jobToProcess.file, jobToProcess.pageRange || '', (message) => {
+          const { images, imagePageNumbers, textSheets } = await convertPdfToImages(jobToProcess.file, jobToProcess.pageRange || '', (message) => {
               setJobs(prev => prev.map(j => j.id === jobId ? { ...j, progressMessage: message } : j));
-          });
-          setJobs(prev => prev.map(j => j.id === jobId ? { ...j, progressMessage: `AI is analyzing ${images.length} page(s)...` } : j));
-          const rawSheets = await extractDataFromPdfImages(images);
-          const sheets = convertRawSheetsToRich(rawSheets);
+          }, { signal });
+          let aiSheets: RawSheetData[] = [];
+          if (images.length > 0) {
+              const extracted = await extractDataFromPdfImages(images, extractionProvider, {
+                  template,
+                  signal,
+                  onProgress: (message) => setJobs(prev => prev.map(j => j.id === jobId ? { ...j, progressMessage: message } : j)),
+                  onRetry: (error, attempt, delayMs) => setJobs(prev => prev.map(j => j.id === jobId ? {
+                      ...j,
+                      attempts: (j.attempts || 1) + 1,
+                      progressMessage: `${ERROR_CODE_LABELS[error.code]}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`,
+                  } : j)),
+              });
+              aiSheets = extracted.map(sheet => ({
+                  ...sheet,
+                  // Providers number pages by their position in the request; map back to PDF page numbers.
+                  sourceBoxes: sheet.sourceBoxes?.map(row => row.map(box =>
+                      box ? { ...box, page: imagePageNumbers[box.page - 1] ?? box.page } : null
+                  )),
+                  ...(sheet.sourcePage !== undefined && { sourcePage: imagePageNumbers[sheet.sourcePage - 1] ?? sheet.sourcePage }),
+              }));
+          }
+          const conformedTextSheets = template ? textSheets.map(sheet => conformSheetToTemplate(sheet, template)) : textSheets;
+          // Pages read from the text layer and by the provider are interleaved back into page order; the sort is stable.
+          const rawSheets = [...conformedTextSheets, ...aiSheets].sort((a, b) => (a.sourcePage ?? 0) - (b.sourcePage ?? 0));
+          if (rawSheets.length === 0) throw new ExtractionError('no_tables', "No tables were detected in the document.");
+          const sheets = convertRawSheetsToRich(rawSheets, locale);
+          if (template) {
+              const templateHeaders = template.columns.map(col => col.name);
+              sheets.forEach(sheet => {
+                  if (headersMatch(sheet.data[0].map(cell => cell.value), templateHeaders)) {
+                      sheet.columnTypes = template.columns.map(col => col.type);
+                  }
+              });
+          }
+          throwIfCancelled(signal);
           setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: 'success', extractedSheets: sheets, progressMessage: undefined } : j));
+      } else if (jobToProcess.conversionMode === 'form-to-excel') {
+          // Field labels and values rarely line up into columns, so the text layer is not used here.
+          const { images } = await convertPdfToImages(jobToProcess.file, jobToProcess.pageRange || '', (message) => {
+              setJobs(prev => prev.map(j => j.id === jobId ? { ...j, progressMessage: message } : j));
+          }, { useTextLayer: false, signal });
+          if (images.length === 0) throw new ExtractionError('no_fields', "No pages were selected for conversion.");
+          const fields = await extractFormFields(images, extractionProvider, {
+              template,
+              signal,
+              onProgress: (message) => setJobs(prev => prev.map(j => j.id === jobId ? { ...j, progressMessage: message } : j)),
+              onRetry: (error, attempt, delayMs) => setJobs(prev => prev.map(j => j.id === jobId ? {
+                  ...j,
+                  attempts: (j.attempts || 1) + 1,
+                  progressMessage: `${ERROR_CODE_LABELS[error.code]}, retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt + 1})...`,
+              } : j)),
+          });
+          const sheets = convertRawSheetsToRich([buildFormSheet(fields, formLayout)], locale);
+          if (template && formLayout === 'one-row') {
+              sheets[0].columnTypes = template.columns.map(col => col.type);
+          }
+          throwIfCancelled(signal);
+          setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: 'success', extractedSheets: sheets, formFields: fields, formLayout, progressMessage: undefined } : j));
       } else { // excel-to-pdf
           setJobs(prev => prev.map(j => j.id === jobId ? { ...j, progressMessage: 'Reading spreadsheet...' } : j));
           const rawSheets = await readExcelData(jobToProcess.file);
-          if (rawSheets.length === 0) throw new Error("Excel file contains no data.");
-          const sheets = convertRawSheetsToRich(rawSheets);
+          if (rawSheets.length === 0) throw new ExtractionError('no_tables', "Excel file contains no data.");
+          const sheets = convertRawSheetsToRich(rawSheets, locale);
+          throwIfCancelled(signal);
           setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: 'success', extractedSheets: sheets, progressMessage: undefined } : j));
       }
     } catch (error) {
-        const message = error instanceof Error ? error.message : "An unexpected error occurred.";
-        setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: 'error', errorMessage: message, progressMessage: undefined } : j));
+        // The cancel action has already marked the job.
+        if (signal.aborted) return;
+        const { code, message } = classifyError(error);
+        setJobs(prev => prev.map(j => j.id === jobId ? { ...j, status: 'error', errorMessage: message, errorCode: code, progressMessage: undefined } : j));
     } finally {
-        setActiveJobsCount(prev => prev - 1);
+        if (abortControllers.current.get(jobId) === controller) {
+            abortControllers.current.delete(jobId);
+            setActiveJobsCount(prev => prev - 1);
+        }
     }
-  }, [convertPdfToImages, readExcelData]);
+  }, [convertPdfToImages, readExcelData, extractionProvider, locale, templates, formLayout]);
 
   useEffect(() => {
     const availableSlots = MAX_CONCURRENT_JOBS - activeJobsCount;
@@ -430,41 +743,23 @@ const App: React.FC = () => {
         throw new Error(`No sheets match the specified range: "${pageRange}". Please check your input.`);
     }
 
-    // @ts-ignore
-    const { jsPDF } = window.jspdf;
-    const doc = new jsPDF({ orientation: options.orientation });
-
-    sheetsToProcess.forEach((sheet, index) => {
-        if (index > 0) {
-            doc.addPage();
-        }
-        const body = sheet.data.slice(1).map(row => row.map(cell => cell.value));
-        const head = sheet.data[0].map(cell => cell.value);
-
-        doc.text(sheet.sheetName, 14, 16);
-        // @ts-ignore
-        doc.autoTable({
-            head: [head],
-            body: body,
-            startY: 20,
-            theme: 'striped',
-            styles: { fontSize: options.fontSize },
-            headStyles: { fillColor: [79, 70, 229] },
-            tableWidth: options.autoWidth ? 'auto' : 'wrap',
-        });
-    });
-    
-    doc.save(fileName);
+    createPdfFromSheets(sheetsToProcess, options).save(fileName);
   }, [parsePageRange]);
 
-    const createStyledWorkbook = (sheets: SheetData[]) => {
+    const createStyledWorkbook = (sheets: SheetData[], target?: TargetWorkbook | null) => {
       // @ts-ignore
-      const wb = XLSX.utils.book_new();
+      const wb = target ? openTargetWorkbook(target) : XLSX.utils.book_new();
       sheets.forEach(sheet => {
-          const sanitizedSheetName = sheet.sheetName.replace(/[/\\?*:[\]]/g, '').substring(0, 31);
+          const sanitizedSheetName = sanitizeSheetName(sheet.sheetName);
           // @ts-ignore
           const ws = {};
           let maxCols = 0;
+          const sheetLocale = sheet.locale || getDefaultLocale();
+          const headerRowCount = sheet.headerRowCount ?? 1;
+          const currencySymbols = (sheet.columnTypes || []).map((type, C) =>
+              type === 'currency' ? findCurrencySymbol(sheet.data.slice(headerRowCount).map(row => row[C]?.value ?? '')) : null
+          );
+          const formulaResults = evaluateFormulas(sheet);
           sheet.data.forEach((row, R) => {
               if (row.length > maxCols) maxCols = row.length;
               row.forEach((cell, C) => {
@@ -472,10 +767,42 @@ const App: React.FC = () => {
                   const cellRef = XLSX.utils.encode_cell({ c: C, r: R });
                   const cellObject: any = { v: cell.value, t: 's' };
 
-                  const num = Number(cell.value);
-                  if (!isNaN(num) && cell.value.trim() !== '') {
-                      cellObject.v = num;
-                      cellObject.t = 'n';
+                  // Formulas stay live in Excel, with their result cached for viewers that do not recalculate.
+                  // Any the engine cannot parse, including calls to functions it does not know, are written as text.
+                  const formula = toExcelFormula(cell.value);
+                  const result = formulaResults.get(`${R}:${C}`);
+                  if (formula !== null && result !== undefined) {
+                      const columnType = R >= headerRowCount ? sheet.columnTypes?.[C] : undefined;
+                      cellObject.f = formula;
+                      if (typeof result === 'number') {
+                          cellObject.v = result;
+                          cellObject.t = 'n';
+                          const format = cell.numberFormat || (columnType && columnType !== 'date' ? getExcelNumberFormat(columnType, currencySymbols[C]) : null);
+                          if (format) cellObject.z = format;
+                      } else if (result === '#ERROR!') {
+                          // No cached result; Excel works it out when the workbook is opened.
+                          delete cellObject.v;
+                          cellObject.t = 'n';
+                      } else {
+                          cellObject.v = EXCEL_ERROR_VALUES[result];
+                          cellObject.t = 'e';
+                      }
+                  } else {
+                      const columnType = R >= headerRowCount ? sheet.columnTypes?.[C] : undefined;
+                      const typed = toWorkbookValue(sheet, R, C, sheetLocale);
+                      if (typed instanceof Date) {
+                          cellObject.v = toExcelSerialDate(typed);
+                          cellObject.t = 'n';
+                          cellObject.z = cell.numberFormat || getExcelNumberFormat('date');
+                      } else if (typeof typed === 'boolean') {
+                          cellObject.v = typed;
+                          cellObject.t = 'b';
+                      } else if (typeof typed === 'number') {
+                          cellObject.v = typed;
+                          cellObject.t = 'n';
+                          const format = cell.numberFormat || (columnType ? getExcelNumberFormat(columnType, currencySymbols[C]) : null);
+                          if (format) cellObject.z = format;
+                      }
                   }
 
                   const sheetjsStyle: any = {};
@@ -492,6 +819,9 @@ const App: React.FC = () => {
                   }
                   
                   if (cell.style?.align) alignmentStyle.horizontal = cell.style.align;
+                  if (cell.style?.fill) {
+                      sheetjsStyle.fill = { patternType: 'solid', fgColor: { rgb: "FF" + cell.style.fill.substring(1).toUpperCase() } };
+                  }
 
                   if (Object.keys(fontStyle).length > 0) sheetjsStyle.font = fontStyle;
                   if (Object.keys(alignmentStyle).length > 0) sheetjsStyle.alignment = alignmentStyle;
@@ -505,45 +835,136 @@ const App: React.FC = () => {
           });
           // @ts-ignore
           ws['!ref'] = XLSX.utils.encode_range({ s: { c: 0, r: 0 }, e: { c: Math.max(0, maxCols - 1), r: sheet.data.length - 1 } });
-          // @ts-ignore
-          XLSX.utils.book_append_sheet(wb, ws, sanitizedSheetName);
+          if (sheet.columnWidths) {
+              // @ts-ignore
+              ws['!cols'] = sheet.columnWidths.map(wch => ({ wch }));
+          }
+          const merges = getMergeRanges(sheet.data);
+          if (merges.length > 0) {
+              // @ts-ignore
+              ws['!merges'] = merges.map(m => ({ s: { r: m.row, c: m.col }, e: { r: m.row + m.rowSpan - 1, c: m.col + m.colSpan - 1 } }));
+          }
+          const mode = target ? target.sheetModes[sheet.sheetName] ?? target.defaultMode : 'new-sheet';
+          addSheetToWorkbook(wb, ws, sanitizedSheetName, mode, headerRowCount);
       });
       return wb;
     }
 
 
-  const handleDownload = useCallback((job: ProcessJob) => {
+  /**
+   * Renders sheets in the selected export format. Excel, OpenDocument, Word, JSON, Markdown and HTML
+   * yield one file; CSV, TSV and NDJSON yield one file per sheet, placed in a folder named after the
+   * source when there are several.
+   */
+  const createOutputFiles = useCallback(async (sourceSheets: SheetData[], baseName: string): Promise<{ name: string; data: Blob }[]> => {
+    if (exportFormat === 'xlsx') {
+      // @ts-ignore
+      const wbout = XLSX.write(createStyledWorkbook(sourceSheets, targetWorkbook), { bookType: 'xlsx', type: 'array' });
+      return [{ name: `${baseName}.xlsx`, data: new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }) }];
+    }
+    // Only Excel output keeps formulas; every other format gets their results.
+    const sheets = sourceSheets.map(resolveFormulas);
+    if (exportFormat === 'ods') {
+      return [{ name: `${baseName}.ods`, data: await createOdsBlob(sheets) }];
+    }
+    if (exportFormat === 'json') {
+      return [{ name: `${baseName}.json`, data: new Blob([sheetsToJson(sheets, baseName)], { type: 'application/json' }) }];
+    }
+    if (exportFormat === 'docx') {
+      return [{ name: `${baseName}.docx`, data: await createDocxBlob(sheets) }];
+    }
+    if (exportFormat === 'md') {
+      return [{ name: `${baseName}.md`, data: new Blob([sheetsToMarkdown(sheets)], { type: 'text/markdown;charset=utf-8' }) }];
+    }
+    if (exportFormat === 'html') {
+      return [{ name: `${baseName}.html`, data: new Blob([createHtmlDocument(sheets, baseName)], { type: 'text/html;charset=utf-8' }) }];
+    }
+    const usedNames = new Set<string>();
+    const sheetFileName = (sheet: SheetData, index: number) => {
+      if (sheets.length === 1) return baseName;
+      let name = sheet.sheetName.replace(/[\\/:*?"<>|]/g, '_').trim() || `Sheet${index + 1}`;
+      if (usedNames.has(name.toLowerCase())) name = `${name} (${index + 1})`;
+      usedNames.add(name.toLowerCase());
+      return name;
+    };
+    if (exportFormat === 'ndjson') {
+      // NDJSON has no room for a schema, so each sheet gets a sidecar schema file.
+      return sheets.flatMap((sheet, index) => {
+        const name = sheetFileName(sheet, index);
+        return [
+          { name: `${baseName}/${name}.ndjson`, data: new Blob([sheetToNdjson(sheet)], { type: 'application/x-ndjson' }) },
+          { name: `${baseName}/${name}.schema.json`, data: new Blob([JSON.stringify(buildSheetJsonSchema(sheet), null, 2)], { type: 'application/schema+json' }) },
+        ];
+      });
+    }
+    const options = exportFormat === 'tsv' ? { ...csvOptions, delimiter: '\t' } : csvOptions;
+    if (sheets.length === 1) {
+      return [{ name: `${baseName}.${exportFormat}`, data: createDelimitedBlob(sheetToDelimitedText(sheets[0], options), options) }];
+    }
+    return sheets.map((sheet, index) => ({
+      name: `${baseName}/${sheetFileName(sheet, index)}.${exportFormat}`,
+      data: createDelimitedBlob(sheetToDelimitedText(sheet, options), options),
+    }));
+  }, [exportFormat, csvOptions, targetWorkbook]);
+
+  const downloadOutputFiles = useCallback(async (files: { name: string; data: Blob }[], baseName: string) => {
+    if (files.length === 1) {
+      saveBlob(files[0].data, files[0].name);
+      return;
+    }
+    // @ts-ignore
+    const zip = new JSZip();
+    files.forEach(file => zip.file(file.name.slice(baseName.length + 1), file.data));
+    saveBlob(await zip.generateAsync({ type: 'blob' }), `${baseName}.zip`);
+  }, []);
+
+  const handleDownload = useCallback(async (job: ProcessJob) => {
     if (!job.extractedSheets) return;
     try {
-      if (job.conversionMode === 'pdf-to-excel') {
-          const wb = createStyledWorkbook(job.extractedSheets);
-          const fileName = job.fileName.replace(/\.pdf$/i, '') + '.xlsx';
-          // @ts-ignore
-          XLSX.writeFile(wb, fileName);
+      if (job.conversionMode !== 'excel-to-pdf') {
+          const baseName = job.fileName.replace(SOURCE_EXTENSION, '');
+          await downloadOutputFiles(await createOutputFiles(job.extractedSheets, baseName), baseName);
       } else { // excel-to-pdf
-          const fileName = job.fileName.replace(/\.(xlsx|xls)$/i, '') + '.pdf';
+          const fileName = job.fileName.replace(SPREADSHEET_EXTENSION, '') + '.pdf';
           downloadPdfFromSheets(job.extractedSheets, fileName, job.pdfOptions || DEFAULT_PDF_OPTIONS, job.pageRange);
       }
     } catch(error) {
         console.error("Failed to generate output file:", error);
         const message = error instanceof Error ? error.message : 'Failed to generate the output file.';
-        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: 'error', errorMessage: message } : j));
+        setJobs(prev => prev.map(j => j.id === job.id ? { ...j, status: 'error', errorMessage: message, errorCode: 'unknown' } : j));
     }
-  }, [downloadPdfFromSheets]);
+  }, [downloadPdfFromSheets, createOutputFiles, downloadOutputFiles]);
   
+  // A spreadsheet opened for PDF output can be edited in the viewer and saved back as Excel with its formats.
+  const handleDownloadWorkbook = useCallback((job: ProcessJob) => {
+    if (!job.extractedSheets) return;
+    // @ts-ignore
+    const wbout = XLSX.write(createStyledWorkbook(job.extractedSheets), { bookType: 'xlsx', type: 'array' });
+    saveBlob(new Blob([wbout], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${job.fileName.replace(SPREADSHEET_EXTENSION, '')}.xlsx`);
+  }, []);
+
+  /** Renders several jobs as one output in the selected format, with a tab per file or per sheet and an index. */
+  const createCombinedOutputFiles = useCallback((batchJobs: ProcessJob[], layout: Exclude<BatchLayout, 'separate'>, baseName: string) => {
+    const sheets = buildBatchSheets(batchJobs.map(job => ({ fileName: job.fileName, pageRange: job.pageRange, sheets: job.extractedSheets! })), layout);
+    return createOutputFiles(sheets, baseName);
+  }, [createOutputFiles]);
+
   const executeDownloadAll = useCallback(async () => {
     setShowDownloadConfirm(false);
     // @ts-ignore
     const zip = new JSZip();
-    const successfulJobs = jobs.filter(j => j.status === 'success' && j.extractedSheets && j.conversionMode === 'pdf-to-excel');
+    const successfulJobs = jobs.filter(j => j.status === 'success' && j.extractedSheets && j.conversionMode !== 'excel-to-pdf');
     if (successfulJobs.length === 0) return;
 
+    if (batchLayout !== 'separate') {
+        await downloadOutputFiles(await createCombinedOutputFiles(successfulJobs, batchLayout, 'converted_files'), 'converted_files');
+        return;
+    }
+
     for (const job of successfulJobs) {
-        const wb = createStyledWorkbook(job.extractedSheets!);
-        const fileName = job.fileName.replace(/\.pdf$/i, '') + '.xlsx';
-        // @ts-ignore
-        const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-        zip.file(fileName, wbout, { compression: "DEFLATE", compressionOptions: { level: 9 } });
+        for (const file of await createOutputFiles(job.extractedSheets!, job.fileName.replace(SOURCE_EXTENSION, ''))) {
+            zip.file(file.name, file.data, { compression: "DEFLATE", compressionOptions: { level: 9 } });
+        }
     }
     
     const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -553,13 +974,19 @@ const App: React.FC = () => {
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-  }, [jobs]);
+  }, [jobs, batchLayout, createOutputFiles, createCombinedOutputFiles, downloadOutputFiles]);
+
+  const handleDownloadConsolidated = useCallback(async () => {
+    if (successfulFormJobs.length === 0) return;
+    const consolidated = buildConsolidatedFormSheet(successfulFormJobs.map(j => ({ fileName: j.fileName, fields: j.formFields! })));
+    await downloadOutputFiles(await createOutputFiles(convertRawSheetsToRich([consolidated], locale), 'consolidated_forms'), 'consolidated_forms');
+  }, [successfulFormJobs, locale, createOutputFiles, downloadOutputFiles]);
 
   const handleRetry = useCallback((jobId: string) => {
     setJobs(prevJobs =>
         prevJobs.map(job =>
             job.id === jobId
-            ? { ...job, status: 'queued', errorMessage: null, extractedSheets: null }
+            ? { ...job, status: 'queued', errorMessage: null, errorCode: null, attempts: 0, extractedSheets: null, formFields: null }
             : job
         )
     );
@@ -573,6 +1000,19 @@ const App: React.FC = () => {
     );
   }, []);
 
+  const handleTemplateChange = useCallback((jobId: string, templateId: string) => {
+    setJobs(prevJobs =>
+        prevJobs.map(job =>
+            job.id === jobId ? { ...job, templateId: templateId || undefined } : job
+        )
+    );
+  }, []);
+
+  const handleSaveTemplates = useCallback((newTemplates: ExtractionTemplate[]) => {
+    setTemplates(newTemplates);
+    setShowTemplateManager(false);
+  }, []);
+
   const handleThumbnailCycle = useCallback((jobId: string, direction: 'next' | 'prev') => {
     setJobs(prevJobs => {
       return prevJobs.map(job => {
@@ -678,21 +1118,27 @@ const App: React.FC = () => {
 }, [selectedJobIds, paginatedJobs]);
 
   const handleDeleteSelected = useCallback(() => {
+    abortJobs(selectedJobIds);
     setJobs(prev => prev.filter(job => !selectedJobIds.has(job.id)));
     setSelectedJobIds(new Set());
-  }, [selectedJobIds]);
+  }, [selectedJobIds, abortJobs]);
+
+  const handleCancelSelected = useCallback(() => {
+    cancelJobs(Array.from(selectedJobIds));
+    setSelectedJobIds(new Set());
+  }, [selectedJobIds, cancelJobs]);
 
   const handleRetrySelected = useCallback(() => {
     const jobsToRetryIds = Array.from(selectedJobIds).filter(id => {
         const job = jobs.find(j => j.id === id);
-        return job?.status === 'error' && job?.file;
+        return (job?.status === 'error' || job?.status === 'cancelled') && job?.file;
     });
 
     if (jobsToRetryIds.length > 0) {
         setJobs(prevJobs =>
             prevJobs.map(job =>
                 jobsToRetryIds.includes(job.id)
-                ? { ...job, status: 'queued', errorMessage: null, extractedSheets: null }
+                ? { ...job, status: 'queued', errorMessage: null, errorCode: null, attempts: 0, extractedSheets: null, formFields: null }
                 : job
             )
         );
@@ -713,25 +1159,32 @@ const App: React.FC = () => {
     let containsExcelToPdf = false;
     
     for(const job of jobsToDownload) {
-      if(job.conversionMode === 'pdf-to-excel') containsPdfToExcel = true;
+      if(job.conversionMode !== 'excel-to-pdf') containsPdfToExcel = true;
       if(job.conversionMode === 'excel-to-pdf') containsExcelToPdf = true;
     }
 
-    if (containsPdfToExcel) {
-      const excelJobs = jobsToDownload.filter(j => j.conversionMode === 'pdf-to-excel');
+    const batchName = `converted_${jobsToDownload.length}_files`;
+    if (containsPdfToExcel && batchLayout !== 'separate') {
+      const files = await createCombinedOutputFiles(jobsToDownload.filter(j => j.conversionMode !== 'excel-to-pdf'), batchLayout, batchName);
+      if (!containsExcelToPdf) {
+        await downloadOutputFiles(files, batchName);
+        setSelectedJobIds(new Set());
+        return;
+      }
+      files.forEach(file => zip.file(file.name, file.data, { compression: "DEFLATE", compressionOptions: { level: 9 } }));
+    } else if (containsPdfToExcel) {
+      const excelJobs = jobsToDownload.filter(j => j.conversionMode !== 'excel-to-pdf');
       for (const job of excelJobs) {
-          const wb = createStyledWorkbook(job.extractedSheets!);
-          const fileName = job.fileName.replace(/\.pdf$/i, '') + '.xlsx';
-          // @ts-ignore
-          const wbout = XLSX.write(wb, { bookType: 'xlsx', type: 'array' });
-          zip.file(fileName, wbout, { compression: "DEFLATE", compressionOptions: { level: 9 } });
+          for (const file of await createOutputFiles(job.extractedSheets!, job.fileName.replace(SOURCE_EXTENSION, ''))) {
+              zip.file(file.name, file.data, { compression: "DEFLATE", compressionOptions: { level: 9 } });
+          }
       }
     }
     
     if (containsExcelToPdf) {
       const pdfJobs = jobsToDownload.filter(j => j.conversionMode === 'excel-to-pdf');
       for (const job of pdfJobs) {
-        const fileName = job.fileName.replace(/\.(xlsx|xls)$/i, '') + '.pdf';
+        const fileName = job.fileName.replace(SPREADSHEET_EXTENSION, '') + '.pdf';
         const sheets = job.extractedSheets!;
         const options = job.pdfOptions || DEFAULT_PDF_OPTIONS;
         const pageRange = job.pageRange;
@@ -741,23 +1194,7 @@ const App: React.FC = () => {
         const sheetsToProcess = sheets.filter((_, index) => selectedSheetNumbers.includes(index + 1));
 
         if (sheetsToProcess.length > 0) {
-            // @ts-ignore
-            const { jsPDF } = window.jspdf;
-            const doc = new jsPDF({ orientation: options.orientation });
-            sheetsToProcess.forEach((sheet, index) => {
-                if (index > 0) doc.addPage();
-                const body = sheet.data.slice(1).map(row => row.map(cell => cell.value));
-                const head = sheet.data[0].map(cell => cell.value);
-                doc.text(sheet.sheetName, 14, 16);
-                // @ts-ignore
-                doc.autoTable({
-                    head: [head], body: body, startY: 20, theme: 'striped',
-                    styles: { fontSize: options.fontSize }, headStyles: { fillColor: [79, 70, 229] },
-                    tableWidth: options.autoWidth ? 'auto' : 'wrap',
-                });
-            });
-            const pdfBlob = doc.output('blob');
-            zip.file(fileName, pdfBlob);
+            zip.file(fileName, createPdfFromSheets(sheetsToProcess, options).output('blob'));
         }
       }
     }
@@ -765,13 +1202,13 @@ const App: React.FC = () => {
     const zipBlob = await zip.generateAsync({ type: 'blob' });
     const link = document.createElement('a');
     link.href = URL.createObjectURL(zipBlob);
-    link.download = `converted_${jobsToDownload.length}_files.zip`;
+    link.download = `${batchName}.zip`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
 
     setSelectedJobIds(new Set());
-  }, [jobs, selectedJobIds, parsePageRange]);
+  }, [jobs, selectedJobIds, parsePageRange, batchLayout, createOutputFiles, createCombinedOutputFiles, downloadOutputFiles]);
 
   const formatBytes = useCallback((bytes: number, decimals = 2) => {
     if (bytes === 0) return '0 Bytes';
@@ -787,6 +1224,7 @@ const App: React.FC = () => {
         case 'processing': return <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center" title="Processing..."><ProcessingIcon className="w-6 h-6 text-primary animate-spin" /></div>;
         case 'success': return <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center" title="Success"><CheckCircleIcon className="w-6 h-6 text-green-500" /></div>;
         case 'error': return <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center" title="Error"><XCircleIcon className="w-6 h-6 text-red-500" /></div>;
+        case 'cancelled': return <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center" title="Cancelled"><XMarkIcon className="w-6 h-6 text-text-secondary" /></div>;
         case 'queued':
         default: return <div className="flex-shrink-0 w-8 h-8 flex items-center justify-center" title="Queued"><QueueListIcon className="w-6 h-6 text-text-secondary" /></div>;
     }
@@ -867,58 +1305,154 @@ const App: React.FC = () => {
   }, [handleThumbnailCycle]);
   
   const selectedJobs = useMemo(() => jobs.filter(j => selectedJobIds.has(j.id)), [jobs, selectedJobIds]);
-  const canRetrySelected = useMemo(() => selectedJobs.some(j => j.status === 'error' && j.file), [selectedJobs]);
+  const canRetrySelected = useMemo(() => selectedJobs.some(j => (j.status === 'error' || j.status === 'cancelled') && j.file), [selectedJobs]);
+  const canCancelSelected = useMemo(() => selectedJobs.some(j => j.status === 'processing' || j.status === 'queued'), [selectedJobs]);
   const canDownloadSelected = useMemo(() => selectedJobs.some(j => j.status === 'success'), [selectedJobs]);
 
+  const editedData = editHistory ? getCurrentSheets(editHistory) : null;
+
   const handleViewData = useCallback((job: ProcessJob) => {
     setCurrentlyViewing(job);
     setIsEditingData(false);
-    if (job.extractedSheets) {
-        setEditedData(JSON.parse(JSON.stringify(job.extractedSheets)));
-    } else {
-        setEditedData(null);
-    }
+    setShowHistory(false);
+    setSheetViews({});
+    setEditHistory(job.extractedSheets ? createHistory(JSON.parse(JSON.stringify(job.extractedSheets))) : null);
   }, []);
 
-  const handleCellChange = useCallback((sheetIndex: number, rowIndex: number, cellIndex: number, value: string) => {
-    setEditedData(prevData => {
-        if (!prevData) return null;
-        const newSheets = JSON.parse(JSON.stringify(prevData));
-        newSheets[sheetIndex].data[rowIndex][cellIndex].value = value;
-        return newSheets;
+  /** Applies an edit to a copy of the current sheets and records the result as a new history state. */
+  const applyEdit = useCallback((label: string, edit: (sheets: SheetData[]) => void, mergeKey?: string, columnMove?: ColumnMove) => {
+    setEditHistory(prev => {
+        if (!prev) return null;
+        const newSheets: SheetData[] = JSON.parse(JSON.stringify(getCurrentSheets(prev)));
+        edit(newSheets);
+        return pushHistory(prev, newSheets, label, mergeKey, columnMove);
     });
   }, []);
+
+  // Sort and filter keys are column indexes, so they follow any structural edits undone or redone on the way.
+  const handleJumpToHistory = useCallback((index: number) => {
+    if (!editHistory) return;
+    setSheetViews(views => remapViewsForJump(views, editHistory, index));
+    setEditHistory(jumpToHistory(editHistory, index));
+  }, [editHistory]);
+
+  const handleUndo = useCallback(() => {
+    if (editHistory && canUndo(editHistory)) handleJumpToHistory(editHistory.index - 1);
+  }, [editHistory, handleJumpToHistory]);
+  const handleRedo = useCallback(() => {
+    if (editHistory && canRedo(editHistory)) handleJumpToHistory(editHistory.index + 1);
+  }, [editHistory, handleJumpToHistory]);
+
+  const handleCellChange = useCallback((sheetIndex: number, rowIndex: number, cellIndex: number, value: string) => {
+    // Keystrokes in the same cell collapse into one step.
+    applyEdit(`Edit ${getCellRef(rowIndex, cellIndex)}`, newSheets => {
+        newSheets[sheetIndex].data[rowIndex][cellIndex].value = value;
+        delete newSheets[sheetIndex].data[rowIndex][cellIndex].confidence;
+    }, `value:${sheetIndex}:${rowIndex}:${cellIndex}`);
+  }, [applyEdit]);
   
   const handleStyleChange = useCallback((sheetIndex: number, selection: Selection, style: Partial<CellStyle>) => {
     if (!selection) return;
-    setEditedData(prevData => {
-        if (!prevData) return null;
-        const newSheets = JSON.parse(JSON.stringify(prevData));
+    const range = `${getCellRef(selection.start.row, selection.start.col)}:${getCellRef(selection.end.row, selection.end.col)}`;
+    applyEdit(`Format ${range}`, newSheets => {
         for (let r = selection.start.row; r <= selection.end.row; r++) {
             for (let c = selection.start.col; c <= selection.end.col; c++) {
                 const currentStyle = newSheets[sheetIndex].data[r][c].style || {};
                 newSheets[sheetIndex].data[r][c].style = { ...currentStyle, ...style };
             }
         }
-        return newSheets;
     });
-  }, []);
+  }, [applyEdit]);
+
+  const handleColumnTypeChange = useCallback((sheetIndex: number, columnIndex: number, type: ColumnType) => {
+    applyEdit(`Set column type to ${type}`, newSheets => {
+        const sheet = newSheets[sheetIndex];
+        const columnTypes = sheet.columnTypes || inferColumnTypes(sheet.data, sheet.locale || locale, sheet.headerRowCount);
+        columnTypes[columnIndex] = type;
+        sheet.columnTypes = columnTypes;
+    });
+  }, [applyEdit, locale]);
+
+  const handleStructureChange = useCallback((sheetIndex: number, edit: StructuralEdit) => {
+    if (!editedData) return;
+    // A deleted column's sort and filter are dropped; the history entry keeps the move so undo can put the rest back.
+    const columnMove: ColumnMove = { sheetIndex, columnMap: getColumnMap(editedData[sheetIndex], edit) };
+    applyEdit(describeStructuralEdit(edit), newSheets => {
+        newSheets[sheetIndex] = applyStructuralEdit(newSheets[sheetIndex], edit);
+    }, undefined, columnMove);
+    setSheetViews(views => moveViewColumns(views, columnMove, 'redo'));
+  }, [applyEdit, editedData]);
+
+  // A replace-all is one step in the history however many cells it touches.
+  const handleReplace = useCallback((matches: FindMatch[], options: FindOptions, replacement: string) => {
+    if (matches.length === 0) return;
+    const pattern = compileFindPattern(options);
+    const label = matches.length === 1
+        ? `Replace in ${getCellRef(matches[0].row, matches[0].col)}`
+        : `Replace "${options.query}" in ${matches.length} cells`;
+    applyEdit(label, newSheets => replaceMatches(newSheets, matches, pattern, replacement, options.useRegex));
+  }, [applyEdit]);
+
+  const handleSheetLocaleChange = useCallback((sheetIndex: number, sheetLocale: string) => {
+    applyEdit(`Set locale to ${sheetLocale}`, newSheets => {
+        newSheets[sheetIndex].locale = sheetLocale;
+        newSheets[sheetIndex].columnTypes = inferColumnTypes(newSheets[sheetIndex].data, sheetLocale, newSheets[sheetIndex].headerRowCount);
+    });
+  }, [applyEdit]);
+
+  const handleCopyJson = useCallback(async () => {
+    if (!currentlyViewing || !editedData) return;
+    try {
+      await navigator.clipboard.writeText(sheetsToJson(editedData.map(resolveFormulas), currentlyViewing.fileName.replace(SOURCE_EXTENSION, '')));
+      setCopyStatus('Copied!');
+    } catch (error) {
+      console.error("Failed to copy JSON to the clipboard:", error);
+      setCopyStatus('Copy failed');
+    }
+    setTimeout(() => setCopyStatus(null), 2000);
+  }, [currentlyViewing, editedData]);
+
+  /** Downloads the sheets as the viewer shows them, sorted and with filtered-out rows left out. */
+  const handleDownloadView = useCallback(async () => {
+    if (!currentlyViewing || !editedData) return;
+    const baseName = `${currentlyViewing.fileName.replace(SOURCE_EXTENSION, '')}_filtered`;
+    // Sorting and filtering move rows out from under formula references, so the view holds their results.
+    const sheets = editedData.map((sheet, index) => applySheetView(resolveFormulas(sheet), sheetViews[index]));
+    await downloadOutputFiles(await createOutputFiles(sheets, baseName), baseName);
+  }, [currentlyViewing, editedData, sheetViews, createOutputFiles, downloadOutputFiles]);
 
   const handleSaveChanges = useCallback(() => {
     if (!currentlyViewing || !editedData) return;
     setJobs(prevJobs =>
         prevJobs.map(job =>
             job.id === currentlyViewing.id
-                ? { ...job, extractedSheets: editedData }
+                ? {
+                    ...job,
+                    extractedSheets: editedData,
+                    // The consolidated export is built from the fields, so they follow the saved sheet.
+                    ...(job.formFields && job.formLayout && editedData[0] && { formFields: readFormSheet(resolveFormulas(editedData[0]), job.formLayout) }),
+                }
                 : job
         )
     );
+    // The saved state becomes the new starting point; earlier states can no longer be jumped to.
+    setCurrentlyViewing(prev => prev && { ...prev, extractedSheets: editedData });
+    setEditHistory(createHistory(editedData, 'Saved'));
     setIsEditingData(false);
   }, [currentlyViewing, editedData]);
+
+  const handleCancelEditing = useCallback(() => {
+    if (currentlyViewing?.extractedSheets) {
+        if (editHistory) setSheetViews(views => remapViewsForJump(views, editHistory, 0));
+        setEditHistory(createHistory(JSON.parse(JSON.stringify(currentlyViewing.extractedSheets))));
+    }
+    setIsEditingData(false);
+  }, [currentlyViewing, editHistory]);
   
   const closeViewer = useCallback(() => {
     setCurrentlyViewing(null);
-    setEditedData(null);
+    setEditHistory(null);
+    setSheetViews({});
     setIsEditingData(false);
   }, []);
 
@@ -928,8 +1462,9 @@ const App: React.FC = () => {
   }, []);
 
   const fileUploadConfig = {
-    'pdf-to-excel': { accept: 'application/pdf', description: 'PDF' },
-    'excel-to-pdf': { accept: '.xlsx, .xls, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel', description: 'Excel' },
+    'pdf-to-excel': { accept: `application/pdf, ${IMAGE_ACCEPT}`, description: 'PDF or scanned image' },
+    'form-to-excel': { accept: `application/pdf, ${IMAGE_ACCEPT}`, description: 'PDF or scanned form' },
+    'excel-to-pdf': { accept: '.xlsx, .xls, .ods, .csv, .tsv, .txt, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel, application/vnd.oasis.opendocument.spreadsheet, text/csv, text/tab-separated-values, text/plain', description: 'Excel, ODS, CSV or delimited text' },
   }[conversionMode];
 
   const renderContent = () => {
@@ -970,6 +1505,57 @@ const App: React.FC = () => {
                         <span className="text-sm font-medium text-text-secondary bg-border-color/50 px-2.5 py-1 rounded-full">{filteredJobs.length} files</span>
                     </div>
                     <div className="flex items-center gap-2 flex-wrap justify-center">
+                        {conversionMode === 'form-to-excel' && (
+                            <select
+                                value={formLayout}
+                                onChange={e => setFormLayout(e.target.value as FormLayout)}
+                                className="px-2 py-1.5 text-sm bg-secondary border border-border-color rounded-lg text-text-secondary focus:ring-1 focus:ring-primary focus:outline-none"
+                                aria-label="Form sheet layout"
+                                title="How each form's fields are laid out in its sheet"
+                            >
+                                <option value="two-column">Field / Value rows</option>
+                                <option value="one-row">One row per form</option>
+                            </select>
+                        )}
+                        {conversionMode !== 'excel-to-pdf' && (
+                            <div className="flex items-center gap-1">
+                                <select
+                                    value={exportFormat}
+                                    onChange={e => setExportFormat(e.target.value as ExportFormat)}
+                                    className="px-2 py-1.5 text-sm bg-secondary border border-border-color rounded-lg text-text-secondary focus:ring-1 focus:ring-primary focus:outline-none"
+                                    aria-label="Download format"
+                                >
+                                    {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(f => <option key={f} value={f}>{EXPORT_FORMAT_LABELS[f]} (.{f})</option>)}
+                                </select>
+                                {(exportFormat === 'csv' || exportFormat === 'tsv') && (
+                                    <button onClick={() => setShowCsvOptions(true)} className="p-1.5 rounded-md hover:bg-border-color text-text-secondary hover:text-text-main transition-colors" aria-label={`${EXPORT_FORMAT_LABELS[exportFormat]} output settings`}>
+                                        <Cog6ToothIcon className="w-5 h-5" />
+                                    </button>
+                                )}
+                                {exportFormat === 'xlsx' && (
+                                    <button onClick={() => setShowTargetWorkbook(true)} className="max-w-[12rem] truncate px-2 py-1.5 text-sm rounded-lg hover:bg-border-color text-text-secondary hover:text-text-main transition-colors" title={targetWorkbook ? `Merging into ${targetWorkbook.fileName}` : 'Merge downloads into an existing workbook'}>
+                                        {targetWorkbook ? `Into ${targetWorkbook.fileName}` : 'New workbook'}
+                                    </button>
+                                )}
+                                <select
+                                    value={batchLayout}
+                                    onChange={e => setBatchLayout(e.target.value as BatchLayout)}
+                                    className="px-2 py-1.5 text-sm bg-secondary border border-border-color rounded-lg text-text-secondary focus:ring-1 focus:ring-primary focus:outline-none"
+                                    aria-label="Multi-file download layout"
+                                    title="How Download All and Download Selected package several files"
+                                >
+                                    <option value="separate">One file per source</option>
+                                    <option value="tab-per-file">Combined, tab per source</option>
+                                    <option value="tab-per-sheet">Combined, tab per sheet</option>
+                                </select>
+                            </div>
+                        )}
+                        {conversionMode !== 'excel-to-pdf' && (
+                            <button onClick={() => setShowTemplateManager(true)} className="flex items-center justify-center gap-2 px-3 py-1.5 text-sm bg-secondary text-text-secondary font-semibold rounded-lg border border-border-color hover:bg-border-color hover:text-text-main transition-colors duration-200">
+                                <Cog6ToothIcon className="w-4 h-4" />
+                                Templates
+                            </button>
+                        )}
                         {jobs.length > 0 && (
                             <button onClick={handleClearAll} className="flex items-center justify-center gap-2 px-3 py-1.5 text-sm bg-secondary text-text-secondary font-semibold rounded-lg border border-border-color hover:bg-border-color hover:text-text-main transition-colors duration-200">
                                 <BroomIcon className="w-4 h-4" />
@@ -982,10 +1568,16 @@ const App: React.FC = () => {
                                 Clear Completed
                             </button>
                         )}
+                        {successfulFormJobs.length > 1 && (
+                            <button onClick={handleDownloadConsolidated} className="flex items-center justify-center gap-2 px-3 py-1.5 text-sm bg-secondary text-primary font-semibold rounded-lg border border-border-color hover:bg-border-color transition-colors duration-200">
+                                <ExcelIcon className="w-4 h-4" />
+                                Consolidated (.{exportFormat})
+                            </button>
+                        )}
                         {successfulJobsCount > 1 && (
                             <button onClick={() => setShowDownloadConfirm(true)} className="flex items-center justify-center gap-2 px-4 py-1.5 text-sm bg-primary text-white font-semibold rounded-lg hover:bg-primary-hover transition-colors duration-200">
                                 <DownloadIcon className="w-4 h-4" />
-                                <span>Download All (.zip)</span>
+                                <span>Download All ({batchLayout === 'separate' ? '.zip' : 'combined'})</span>
                             </button>
                         )}
                     </div>
@@ -1021,6 +1613,14 @@ const App: React.FC = () => {
                             <RetryIcon className="w-4 h-4" />
                             <span>Retry Selected</span>
                           </button>
+                          <button
+                            onClick={handleCancelSelected}
+                            disabled={!canCancelSelected}
+                            className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            <XMarkIcon className="w-4 h-4" />
+                            <span>Cancel Selected</span>
+                          </button>
                           <button
                             onClick={handleDeleteSelected}
                             className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg bg-red-600 text-white hover:bg-red-700 border border-transparent transition-colors"
@@ -1061,9 +1661,9 @@ const App: React.FC = () => {
                                       : <span className="capitalize">{job.status}</span>
                                   }
                                 </p>
-                                {(job.conversionMode === 'pdf-to-excel' || job.conversionMode === 'excel-to-pdf') && (job.status === 'queued' || (job.status === 'error' && job.file)) ? (
+                                {(job.status === 'queued' || ((job.status === 'error' || job.status === 'cancelled') && job.file)) ? (
                                     <div className="mt-1.5">
-                                      <label htmlFor={`page-range-${job.id}`} className="text-xs font-medium text-text-secondary mr-2">{job.conversionMode === 'pdf-to-excel' ? 'Pages:' : 'Sheets:'}</label>
+                                      <label htmlFor={`page-range-${job.id}`} className="text-xs font-medium text-text-secondary mr-2">{job.conversionMode !== 'excel-to-pdf' ? 'Pages:' : 'Sheets:'}</label>
                                       <input 
                                         id={`page-range-${job.id}`}
                                         type="text" 
@@ -1072,9 +1672,23 @@ const App: React.FC = () => {
                                         onChange={(e) => handlePageRangeChange(job.id, e.target.value)}
                                         className="w-32 px-2 py-0.5 text-sm bg-secondary border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
                                       />
+                                      {job.conversionMode !== 'excel-to-pdf' && templates.length > 0 && (
+                                        <>
+                                          <label htmlFor={`template-${job.id}`} className="text-xs font-medium text-text-secondary ml-3 mr-2">Template:</label>
+                                          <select
+                                            id={`template-${job.id}`}
+                                            value={job.templateId || ''}
+                                            onChange={(e) => handleTemplateChange(job.id, e.target.value)}
+                                            className="w-40 px-2 py-0.5 text-sm bg-secondary border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
+                                          >
+                                            <option value="">None</option>
+                                            {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                                          </select>
+                                        </>
+                                      )}
                                     </div>
-                                ) : (job.conversionMode === 'pdf-to-excel' || job.conversionMode === 'excel-to-pdf') && job.status !== 'queued' && job.pageRange ? (
-                                    <p className="text-xs text-text-secondary mt-1">{job.conversionMode === 'pdf-to-excel' ? 'Pages processed:' : 'Sheets processed:'} {job.pageRange}</p>
+                                ) : job.status !== 'queued' && job.pageRange ? (
+                                    <p className="text-xs text-text-secondary mt-1">{job.conversionMode !== 'excel-to-pdf' ? 'Pages processed:' : 'Sheets processed:'} {job.pageRange}</p>
                                 ) : null}
                             </div>
                         </div>
@@ -1089,18 +1703,34 @@ const App: React.FC = () => {
                                 </button>
                             )}
 
-                            {job.status === 'success' && job.conversionMode === 'pdf-to-excel' && (
+                            {(job.status === 'processing' || job.status === 'queued') && (
+                                <button onClick={() => cancelJobs([job.id])} className="flex items-center gap-1 px-3 py-1 text-sm font-medium rounded-md bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors" aria-label={`Cancel conversion for ${job.fileName}`}><XMarkIcon className="w-4 h-4" /><span>Cancel</span></button>
+                            )}
+                            {job.status === 'cancelled' && (
+                                <button onClick={() => handleRetry(job.id)} disabled={!job.file} className="flex items-center gap-1 px-3 py-1 text-sm font-medium rounded-md bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={!job.file ? "Re-upload this file to queue it again" : "Queue this file again"} aria-label={`Re-queue ${job.fileName}`}><RetryIcon className="w-4 h-4" /><span>Re-queue</span></button>
+                            )}
+                            {job.status === 'success' && job.conversionMode !== 'excel-to-pdf' && (
                                 <>
                                     <button onClick={() => handleViewData(job)} className="px-3 py-1 text-sm font-medium text-primary hover:underline">View Data</button>
-                                    <button onClick={() => handleDownload(job)} className="px-3 py-1 text-sm font-medium rounded-md bg-primary/10 text-primary hover:bg-primary/20">Download Excel</button>
+                                    <button onClick={() => handleDownload(job)} className="px-3 py-1 text-sm font-medium rounded-md bg-primary/10 text-primary hover:bg-primary/20">Download {EXPORT_FORMAT_LABELS[exportFormat]}</button>
                                 </>
                             )}
                             {job.status === 'success' && job.conversionMode === 'excel-to-pdf' && (
-                                <button onClick={() => handleDownload(job)} className="px-3 py-1 text-sm font-medium rounded-md bg-primary/10 text-primary hover:bg-primary/20">Download PDF</button>
+                                <>
+                                    <button onClick={() => handleViewData(job)} className="px-3 py-1 text-sm font-medium text-primary hover:underline">View Data</button>
+                                    <button onClick={() => handleDownloadWorkbook(job)} className="px-3 py-1 text-sm font-medium text-primary hover:underline" title="Download the sheets, with any saved edits, as an Excel workbook">Download Excel</button>
+                                    <button onClick={() => handleDownload(job)} className="px-3 py-1 text-sm font-medium rounded-md bg-primary/10 text-primary hover:bg-primary/20">Download PDF</button>
+                                </>
                             )}
                              {job.status === 'error' && (
                                 <div className="flex items-center gap-2">
-                                    <p className="text-sm text-red-500" title={job.errorMessage ?? 'An unknown error occurred'}>Conversion Failed</p>
+                                    <div className="text-right" title={job.errorMessage ?? 'An unknown error occurred'}>
+                                        <p className="text-sm text-red-500">Conversion Failed</p>
+                                        <p className="text-xs text-text-secondary">
+                                            {ERROR_CODE_LABELS[job.errorCode || 'unknown']}
+                                            {job.attempts && job.attempts > 1 ? ` · ${job.attempts} attempts` : ''}
+                                        </p>
+                                    </div>
                                     <button onClick={() => handleRetry(job.id)} disabled={!job.file} className="flex items-center gap-1 px-3 py-1 text-sm font-medium rounded-md bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors disabled:opacity-50 disabled:cursor-not-allowed" title={!job.file ? "Re-upload this file to retry" : "Retry this file"} aria-label={`Retry conversion for ${job.fileName}`}><RetryIcon className="w-4 h-4" /><span>Retry</span></button>
                                 </div>
                             )}
@@ -1135,13 +1765,18 @@ const App: React.FC = () => {
   
   const TABS: { id: ConversionMode, name: string }[] = [
       { id: 'pdf-to-excel', name: 'PDF to Excel' },
+      { id: 'form-to-excel', name: 'Forms to Excel' },
       { id: 'excel-to-pdf', name: 'Excel to PDF' },
   ];
 
   const headerConfig = {
       'pdf-to-excel': {
           title: "AI PDF to Excel Converter",
-          description: "Pull data straight from PDFs into Excel spreadsheets in seconds. Powered by Gemini."
+          description: `Pull data straight from PDFs into Excel spreadsheets in seconds. Powered by ${extractionProvider.name}.`
+      },
+      'form-to-excel': {
+          title: "AI Form to Excel Converter",
+          description: `Capture labeled fields from forms and invoice headers into a spreadsheet. Powered by ${extractionProvider.name}.`
       },
       'excel-to-pdf': {
           title: "Excel to PDF Converter",
@@ -1162,13 +1797,24 @@ const App: React.FC = () => {
               {headerConfig.description}
             </p>
         </div>
-        <button
-          onClick={toggleTheme}
-          className="flex-shrink-0 p-2 rounded-full bg-secondary text-text-secondary hover:text-text-main hover:bg-border-color transition-colors"
-          aria-label="Toggle dark mode"
-        >
-          {theme === 'dark' ? <SunIcon className="w-6 h-6" /> : <MoonIcon className="w-6 h-6" />}
-        </button>
+        <div className="flex items-center gap-2 flex-shrink-0">
+          <select
+            value={locale}
+            onChange={e => setLocale(e.target.value)}
+            className="px-2 py-1.5 text-sm bg-secondary border border-border-color rounded-lg text-text-secondary focus:ring-1 focus:ring-primary focus:outline-none"
+            aria-label="Number and date locale"
+            title="Locale used to read numbers, currencies and dates"
+          >
+            {SUPPORTED_LOCALES.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+          <button
+            onClick={toggleTheme}
+            className="flex-shrink-0 p-2 rounded-full bg-secondary text-text-secondary hover:text-text-main hover:bg-border-color transition-colors"
+            aria-label="Toggle dark mode"
+          >
+            {theme === 'dark' ? <SunIcon className="w-6 h-6" /> : <MoonIcon className="w-6 h-6" />}
+          </button>
+        </div>
       </header>
       
       <div className="w-full max-w-4xl mx-auto mb-8">
@@ -1208,7 +1854,9 @@ const App: React.FC = () => {
              </div>
              <h3 className="mt-4 text-lg font-semibold text-text-main">Confirm Download</h3>
              <p className="mt-2 text-sm text-text-secondary">
-               You are about to download a ZIP archive containing {successfulJobsCount} converted files.
+               {batchLayout === 'separate'
+                 ? `You are about to download a ZIP archive containing ${successfulJobsCount} converted files.`
+                 : `You are about to download ${successfulJobsCount} converted files combined into one ${EXPORT_FORMAT_LABELS[exportFormat]} output, with an index sheet listing each source.`}
              </p>
              <div className="mt-6 flex justify-center gap-4">
                <button type="button" onClick={() => setShowDownloadConfirm(false)} className="px-6 py-2 text-sm font-semibold rounded-lg bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors">Cancel</button>
@@ -1225,9 +1873,20 @@ const App: React.FC = () => {
                         {isEditingData ? "Editing" : "Viewing"}: {currentlyViewing.fileName}
                       </h3>
                         <div className="flex items-center gap-4">
+                          <button onClick={handleCopyJson} disabled={!editedData} className="px-4 py-1.5 text-sm bg-secondary text-text-secondary font-semibold rounded-lg border border-border-color hover:bg-border-color hover:text-text-main transition-colors duration-200 disabled:opacity-50" title="Copy rows as JSON with a schema for each sheet">
+                            {copyStatus || 'Copy JSON'}
+                          </button>
+                          {Object.values(sheetViews).some(isViewActive) && (
+                            <button onClick={handleDownloadView} className="flex items-center gap-2 px-4 py-1.5 text-sm bg-secondary text-text-secondary font-semibold rounded-lg border border-border-color hover:bg-border-color hover:text-text-main transition-colors duration-200" title={`Download the sorted and filtered rows as ${EXPORT_FORMAT_LABELS[exportFormat]}`}>
+                              <DownloadIcon className="w-4 h-4" />Download view
+                            </button>
+                          )}
                           {isEditingData ? (
                             <>
-                                <button onClick={() => setIsEditingData(false)} className="px-4 py-1.5 text-sm bg-secondary text-text-secondary font-semibold rounded-lg border border-border-color hover:bg-border-color hover:text-text-main transition-colors duration-200">Cancel</button>
+                                <button onClick={handleUndo} disabled={!editHistory || !canUndo(editHistory)} className="p-1.5 rounded-md text-text-secondary hover:bg-border-color hover:text-text-main disabled:opacity-50" title="Undo (Ctrl+Z)" aria-label="Undo"><UndoIcon className="w-5 h-5" /></button>
+                                <button onClick={handleRedo} disabled={!editHistory || !canRedo(editHistory)} className="p-1.5 rounded-md text-text-secondary hover:bg-border-color hover:text-text-main disabled:opacity-50" title="Redo (Ctrl+Shift+Z)" aria-label="Redo"><RedoIcon className="w-5 h-5" /></button>
+                                <button onClick={() => setShowHistory(s => !s)} className={`px-3 py-1.5 text-sm font-semibold rounded-lg border border-border-color transition-colors duration-200 ${showHistory ? 'bg-primary/10 text-primary' : 'bg-secondary text-text-secondary hover:bg-border-color hover:text-text-main'}`}>History</button>
+                                <button onClick={handleCancelEditing} className="px-4 py-1.5 text-sm bg-secondary text-text-secondary font-semibold rounded-lg border border-border-color hover:bg-border-color hover:text-text-main transition-colors duration-200">Cancel</button>
                                 <button onClick={handleSaveChanges} className="flex items-center gap-2 px-4 py-1.5 text-sm bg-primary text-white font-semibold rounded-lg hover:bg-primary-hover transition-colors duration-200"><SaveIcon className="w-4 h-4" />Save Changes</button>
                             </>
                           ) : (
@@ -1236,12 +1895,20 @@ const App: React.FC = () => {
                           <button onClick={closeViewer} className="p-1 rounded-full hover:bg-border-color text-text-secondary text-2xl leading-none">&times;</button>
                       </div>
                   </div>
-                  <div className="flex-grow overflow-hidden">
-                      {editedData ? (<DataTable sheets={editedData} editable={isEditingData} onCellChange={handleCellChange} onStyleChange={handleStyleChange} />) : (<p className="text-center p-8 text-text-secondary">No data to display.</p>)}
+                  <div className="flex-grow overflow-hidden flex">
+                      <div className="flex-grow min-w-0">
+                          {editedData ? (<DataTable sheets={editedData} editable={isEditingData} onCellChange={handleCellChange} onStyleChange={handleStyleChange} onColumnTypeChange={handleColumnTypeChange} onLocaleChange={handleSheetLocaleChange} onStructureChange={handleStructureChange} views={sheetViews} onViewChange={setSheetViews} onReplace={handleReplace} onUndo={handleUndo} onRedo={handleRedo} />) : (<p className="text-center p-8 text-text-secondary">No data to display.</p>)}
+                      </div>
+                      {isEditingData && showHistory && editHistory && (
+                          <HistoryPanel entries={editHistory.entries} currentIndex={editHistory.index} onJump={handleJumpToHistory} />
+                      )}
                   </div>
               </div>
           </div>
       )}
+      {showTargetWorkbook && <TargetWorkbookModal target={targetWorkbook} extractedSheetNames={extractedSheetNames} onSave={(target) => { setTargetWorkbook(target); setShowTargetWorkbook(false); }} onClose={() => setShowTargetWorkbook(false)} />}
+      {showCsvOptions && <CsvOptionsModal format={exportFormat} options={csvOptions} onSave={(options) => { setCsvOptions(options); setShowCsvOptions(false); }} onClose={() => setShowCsvOptions(false)} />}
+      {showTemplateManager && <TemplateManagerModal templates={templates} onSave={handleSaveTemplates} onClose={() => setShowTemplateManager(false)} />}
       {jobToEditOptions && <PdfOptionsModal job={jobToEditOptions} onSave={handleSavePdfOptions} onClose={() => setEditingOptionsForJobId(null)} />}
     </div>
   );
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import type { CsvOptions, ExportFormat } from '../types';
+import { CSV_DELIMITERS } from '../services/csvService';
+
+interface CsvOptionsModalProps {
+  format: ExportFormat;
+  options: CsvOptions;
+  onSave: (options: CsvOptions) => void;
+  onClose: () => void;
+}
+
+const selectClass = "w-full px-3 py-2 bg-background border border-border-color rounded-lg focus:ring-1 focus:ring-primary focus:outline-none";
+
+const CsvOptionsModal: React.FC<CsvOptionsModalProps> = ({ format, options: initialOptions, onSave, onClose }) => {
+  const [options, setOptions] = useState<CsvOptions>(initialOptions);
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-md bg-secondary rounded-xl border border-border-color shadow-2xl p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-text-main">{format === 'tsv' ? 'TSV' : 'CSV'} Output Options</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-color text-text-secondary text-2xl leading-none">&times;</button>
+        </div>
+        <div className="space-y-4">
+          {format !== 'tsv' && (
+            <div>
+              <label htmlFor="csv-delimiter" className="block text-sm font-medium text-text-main mb-1">Delimiter</label>
+              <select id="csv-delimiter" value={options.delimiter} onChange={e => setOptions(o => ({ ...o, delimiter: e.target.value }))} className={selectClass}>
+                {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor="csv-line-ending" className="block text-sm font-medium text-text-main mb-1">Line Endings</label>
+            <select id="csv-line-ending" value={options.lineEnding} onChange={e => setOptions(o => ({ ...o, lineEnding: e.target.value as CsvOptions['lineEnding'] }))} className={selectClass}>
+              <option value="crlf">Windows (CRLF)</option>
+              <option value="lf">Unix (LF)</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="csv-encoding" className="block text-sm font-medium text-text-main mb-1">Encoding</label>
+            <select id="csv-encoding" value={options.includeBom ? 'bom' : 'plain'} onChange={e => setOptions(o => ({ ...o, includeBom: e.target.value === 'bom' }))} className={selectClass}>
+              <option value="plain">UTF-8</option>
+              <option value="bom">UTF-8 with BOM (for Excel)</option>
+            </select>
+          </div>
+          <div className="flex items-center">
+            <input
+              id="csv-quote-all"
+              type="checkbox"
+              checked={options.quoteAll}
+              onChange={e => setOptions(o => ({ ...o, quoteAll: e.target.checked }))}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <label htmlFor="csv-quote-all" className="ml-2 block text-sm text-text-main cursor-pointer">Quote every field</label>
+          </div>
+        </div>
+        <div className="mt-6 flex justify-end gap-4">
+          <button type="button" onClick={onClose} className="px-6 py-2 text-sm font-semibold rounded-lg bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors">Cancel</button>
+          <button type="button" onClick={() => onSave(options)} className="px-6 py-2 text-sm font-semibold rounded-lg bg-primary text-white hover:bg-primary-hover transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvOptionsModal;
@@ -1,7 +1,14 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import type { SheetData, CellData, CellStyle } from '../types';
-import { BoldIcon, ItalicIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, UnderlineIcon, StrikethroughIcon, TextColorIcon } from './icons';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { SheetData, CellData, CellStyle, ColumnType, TableCopyFormat, StructuralEdit, SheetView, ColumnFilter, FindOptions, FindScope, FindMatch } from '../types';
+import { COLUMN_TYPES, SUPPORTED_LOCALES, getDefaultLocale } from '../services/valueParser';
+import { getCoveredCells, getMergeRanges, getColumnLetter } from '../services/sheetUtils';
+import { copySheetsToClipboard, sliceSheet } from '../services/markupExportService';
+import { EMPTY_VIEW, isViewActive, getVisibleRowIndexes, withoutBodyRowSpans, applySheetView } from '../services/sheetView';
+import { compileFindPattern, findMatches } from '../services/findReplace';
+import { evaluateFormulas, formatFormulaResult, resolveFormulas, withFormulaResults, type FormulaResult } from '../services/formulaEngine';
+import FindReplaceBar from './FindReplaceBar';
+import { BoldIcon, ItalicIcon, AlignLeftIcon, AlignCenterIcon, AlignRightIcon, UnderlineIcon, StrikethroughIcon, TextColorIcon, FunnelIcon, ArrowsUpDownIcon, ArrowUpIcon, ArrowDownIcon, SearchIcon } from './icons';
 
 type Selection = {
   start: { row: number, col: number };
@@ -13,6 +20,16 @@ interface DataTableProps {
   editable?: boolean;
   onCellChange?: (sheetIndex: number, rowIndex: number, cellIndex: number, value: string) => void;
   onStyleChange?: (sheetIndex: number, selection: Selection, style: Partial<CellStyle>) => void;
+  confidenceThreshold?: number;
+  onColumnTypeChange?: (sheetIndex: number, columnIndex: number, type: ColumnType) => void;
+  onLocaleChange?: (sheetIndex: number, locale: string) => void;
+  onStructureChange?: (sheetIndex: number, edit: StructuralEdit) => void;
+  /** Sort and filter state by sheet index; kept by the parent so undoing a structural edit can move it back. */
+  views: Record<number, SheetView>;
+  onViewChange: React.Dispatch<React.SetStateAction<Record<number, SheetView>>>;
+  onReplace?: (matches: FindMatch[], options: FindOptions, replacement: string) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
 }
 
 interface ActiveCell {
@@ -22,6 +39,87 @@ interface ActiveCell {
 }
 
 const PRESET_COLORS = ['#111827', '#F9FAFB', '#EF4444', '#22C55E', '#3B82F6', '#F97316', '#8B5CF6'];
+const EMPTY_FIND: FindOptions = { query: '', matchCase: false, wholeCell: false, useRegex: false };
+const CONFIDENCE_THRESHOLDS = [0.5, 0.7, 0.8, 0.9, 0.95];
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.8;
+
+type CopyScope = 'selection' | 'sheet' | 'all';
+const COPY_FORMATS: { value: TableCopyFormat; label: string }[] = [
+  { value: 'tsv', label: 'TSV' },
+  { value: 'html', label: 'HTML' },
+  { value: 'markdown', label: 'Markdown' },
+];
+
+const FILTER_KINDS: { value: ColumnFilter['kind']; label: string }[] = [
+  { value: 'contains', label: 'Contains text' },
+  { value: 'range', label: 'Number between' },
+  { value: 'blank', label: 'Blank' },
+  { value: 'not-blank', label: 'Not blank' },
+];
+
+const ColumnFilterPopover: React.FC<{
+  anchor: DOMRect,
+  filter: ColumnFilter | undefined,
+  onApply: (filter: ColumnFilter | undefined) => void,
+  onClose: () => void
+}> = ({ anchor, filter, onApply, onClose }) => {
+    const [kind, setKind] = useState<ColumnFilter['kind']>(filter?.kind ?? 'contains');
+    const [text, setText] = useState(filter?.kind === 'contains' ? filter.text : '');
+    const [min, setMin] = useState(filter?.kind === 'range' ? String(filter.min ?? '') : '');
+    const [max, setMax] = useState(filter?.kind === 'range' ? String(filter.max ?? '') : '');
+    const popoverRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (popoverRef.current && !popoverRef.current.contains(event.target as Node)) onClose();
+        };
+        document.addEventListener("mousedown", handleClickOutside);
+        return () => document.removeEventListener("mousedown", handleClickOutside);
+    }, [onClose]);
+
+    const parseBound = (value: string) => value.trim() === '' || isNaN(Number(value)) ? undefined : Number(value);
+
+    // An empty text or range filter would match everything, so applying one clears the filter instead.
+    const apply = () => {
+        if (kind === 'contains') {
+            onApply(text ? { kind, text } : undefined);
+        } else if (kind === 'range') {
+            const bounds = { min: parseBound(min), max: parseBound(max) };
+            onApply(bounds.min === undefined && bounds.max === undefined ? undefined : { kind, ...bounds });
+        } else {
+            onApply({ kind });
+        }
+    };
+
+    const inputClass = "w-full px-2 py-1 text-sm bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none";
+
+    return (
+        <div
+          ref={popoverRef}
+          className="fixed z-30 w-56 bg-secondary border border-border-color rounded-lg shadow-lg p-3 space-y-2"
+          style={{ top: anchor.bottom + 4, left: Math.max(8, anchor.right - 224) }}
+          onKeyDown={e => {
+              if (e.key === 'Enter') apply();
+              else if (e.key === 'Escape') onClose();
+          }}
+        >
+            <select value={kind} onChange={e => setKind(e.target.value as ColumnFilter['kind'])} className={inputClass} aria-label="Filter condition">
+                {FILTER_KINDS.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            {kind === 'contains' && <input type="text" value={text} onChange={e => setText(e.target.value)} className={inputClass} placeholder="Text" autoFocus />}
+            {kind === 'range' && (
+                <div className="flex items-center gap-2">
+                    <input type="number" value={min} onChange={e => setMin(e.target.value)} className={inputClass} placeholder="Min" aria-label="Minimum" autoFocus />
+                    <input type="number" value={max} onChange={e => setMax(e.target.value)} className={inputClass} placeholder="Max" aria-label="Maximum" />
+                </div>
+            )}
+            <div className="flex justify-end gap-2">
+                <button onClick={() => onApply(undefined)} disabled={!filter} className="px-3 py-1 text-sm rounded-md text-text-secondary hover:bg-border-color disabled:opacity-50">Clear</button>
+                <button onClick={apply} className="px-3 py-1 text-sm font-medium rounded-md bg-primary text-white hover:bg-primary-hover">Apply</button>
+            </div>
+        </div>
+    );
+};
 
 const FormattingToolbar: React.FC<{
   target: HTMLElement | null,
@@ -98,17 +196,58 @@ const FormattingToolbar: React.FC<{
     );
 };
 
-const DataTable: React.FC<DataTableProps> = ({ sheets, editable = false, onCellChange, onStyleChange }) => {
+const DataTable: React.FC<DataTableProps> = ({ sheets, editable = false, onCellChange, onStyleChange, confidenceThreshold: initialThreshold = DEFAULT_CONFIDENCE_THRESHOLD, onColumnTypeChange, onLocaleChange, onStructureChange, views, onViewChange, onReplace, onUndo, onRedo }) => {
   const [activeSheetIndex, setActiveSheetIndex] = useState(0);
+  const [confidenceThreshold, setConfidenceThreshold] = useState(initialThreshold);
   const [activeCell, setActiveCell] = useState<ActiveCell | null>(null);
   const [selection, setSelection] = useState<Selection>(null);
   const [toolbarTarget, setToolbarTarget] = useState<HTMLElement | null>(null);
+  const [copyScope, setCopyScope] = useState<CopyScope>('sheet');
+  const [copyStatus, setCopyStatus] = useState<string | null>(null);
+  const [dragging, setDragging] = useState<{ kind: 'row' | 'column'; index: number } | null>(null);
+  const [filterMenu, setFilterMenu] = useState<{ column: number; anchor: DOMRect } | null>(null);
+  const [showFind, setShowFind] = useState(false);
+  const [findOptions, setFindOptions] = useState<FindOptions>(EMPTY_FIND);
+  const [findScope, setFindScope] = useState<FindScope>('sheet');
+  const [replacement, setReplacement] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
   const tableContainerRef = useRef<HTMLDivElement>(null);
+  const revealedMatchRef = useRef<string | null>(null);
+  const closeFilterMenu = useCallback(() => setFilterMenu(null), []);
+
+  // Formulas are evaluated once per change to the sheet rather than on every render.
+  const sheetForFormulas = sheets?.[activeSheetIndex]?.data ? sheets[activeSheetIndex] : null;
+  const formulaResults = useMemo(() => sheetForFormulas ? evaluateFormulas(sheetForFormulas) : new Map<string, FormulaResult>(), [sheetForFormulas]);
+  const resolvedSheet = useMemo(() => sheetForFormulas && withFormulaResults(sheetForFormulas, formulaResults), [sheetForFormulas, formulaResults]);
+
+  let findError: string | null = null;
+  let matches: FindMatch[] = [];
+  if (showFind && findOptions.query && sheets) {
+      try {
+          matches = findMatches(sheets, compileFindPattern(findOptions), findScope === 'selection' && !selection ? 'sheet' : findScope, activeSheetIndex, selection);
+      } catch {
+          findError = 'Invalid regular expression';
+      }
+  }
+  const currentMatch = matches.length > 0 ? matches[Math.min(matchIndex, matches.length - 1)] : null;
+  const currentMatchKey = currentMatch ? `${currentMatch.sheetIndex}:${currentMatch.row}:${currentMatch.col}` : null;
 
   useEffect(() => {
     setActiveCell(null);
     setSelection(null);
+    setFilterMenu(null);
   }, [activeSheetIndex]);
+
+  // Brings each new current match into view once, switching sheets if needed, without pinning the user to it afterwards.
+  useEffect(() => {
+    if (!currentMatch || revealedMatchRef.current === currentMatchKey) return;
+    if (currentMatch.sheetIndex !== activeSheetIndex) {
+        setActiveSheetIndex(currentMatch.sheetIndex);
+        return;
+    }
+    revealedMatchRef.current = currentMatchKey;
+    tableContainerRef.current?.querySelector('[data-current-match]')?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [currentMatchKey, activeSheetIndex]);
   
   useEffect(() => {
     if (editable && activeCell && activeCell.sheetIndex === activeSheetIndex) {
@@ -135,14 +274,67 @@ const DataTable: React.FC<DataTableProps> = ({ sheets, editable = false, onCellC
      return <p className="text-center text-text-secondary">Selected sheet has no data.</p>;
   }
   
-  const headers = activeSheet.data[0] || [];
-  const rows = activeSheet.data.slice(1);
+  const headerRowCount = Math.max(1, Math.min(activeSheet.headerRowCount ?? 1, activeSheet.data.length));
+  const headerRows = activeSheet.data.slice(0, headerRowCount);
+  const headers = activeSheet.data[headerRowCount - 1] || [];
+  const rows = activeSheet.data.slice(headerRowCount);
+
+  // Formula cells show their results; the formula itself appears while the cell is edited.
+  const getDisplayValue = (rowIndex: number, cellIndex: number, cell: CellData): string => {
+      const result = formulaResults.get(`${rowIndex}:${cellIndex}`);
+      return result === undefined ? cell.value : formatFormulaResult(result, activeSheet.locale || getDefaultLocale());
+  };
+
+  // Sorting and filtering only change which body rows are shown and in what order; indexes stay those of `data`.
+  // Selections are rectangles of those indexes, so while a view is active they never span more than one body
+  // row unless they take in whole columns, and rows cannot be inserted, deleted or moved.
+  const view = views[activeSheetIndex] ?? EMPTY_VIEW;
+  const viewActive = isViewActive(view);
+  const visibleRowIndexes = getVisibleRowIndexes(resolvedSheet ?? activeSheet, view);
+  const rowOrder = [...Array.from({ length: headerRowCount }, (_, i) => i), ...visibleRowIndexes];
+  const displayData = viewActive ? withoutBodyRowSpans(activeSheet.data, headerRowCount) : activeSheet.data;
+  const coveredCells = getCoveredCells(displayData);
+
+  const matchedCells = new Set(matches.filter(m => m.sheetIndex === activeSheetIndex).map(m => `${m.row}:${m.col}`));
+  const isCurrentMatch = (rowIndex: number, cellIndex: number) =>
+      currentMatch?.sheetIndex === activeSheetIndex && currentMatch.row === rowIndex && currentMatch.col === cellIndex;
   const totalRows = activeSheet.data.length;
   const totalCols = headers.length;
 
+  const isUncertain = (cell: CellData) => cell.confidence !== undefined && cell.confidence < confidenceThreshold;
+  const hasConfidence = activeSheet.data.some(row => row.some(cell => cell.confidence !== undefined));
+  const uncertainCells: { row: number, col: number }[] = [];
+  activeSheet.data.forEach((row, r) => row.forEach((cell, c) => {
+      if (isUncertain(cell)) uncertainCells.push({ row: r, col: c });
+  }));
+
+  const jumpToNextUncertain = () => {
+      const shown = uncertainCells.filter(pos => rowOrder.includes(pos.row));
+      if (shown.length === 0) return;
+      const current = activeCell ? activeCell.rowIndex * totalCols + activeCell.cellIndex : -1;
+      const next = shown.find(pos => pos.row * totalCols + pos.col > current) ?? shown[0];
+      setActiveCell({ sheetIndex: activeSheetIndex, rowIndex: next.row, cellIndex: next.col });
+      setSelection({ start: next, end: next });
+  };
+
+  const getCellTitle = (rowIndex: number, cellIndex: number, cell: CellData): string | undefined => {
+      if (formulaResults.has(`${rowIndex}:${cellIndex}`)) return cell.value;
+      if (cell.confidence === undefined) return undefined;
+      const page = cell.sourceBox ? ` (page ${cell.sourceBox.page})` : '';
+      return `Confidence: ${Math.round(cell.confidence * 100)}%${page}`;
+  };
+
+  const getCellBackground = (rowIndex: number, cellIndex: number, cell: CellData): string => {
+      if (isCellSelected(rowIndex, cellIndex)) return 'bg-primary/20';
+      if (isCurrentMatch(rowIndex, cellIndex)) return 'bg-orange-300/70 dark:bg-orange-600/50';
+      if (matchedCells.has(`${rowIndex}:${cellIndex}`)) return 'bg-yellow-200/70 dark:bg-yellow-700/40';
+      if (isUncertain(cell)) return 'bg-amber-100 dark:bg-amber-900/30';
+      return '';
+  };
+
   const handleCellClick = (e: React.MouseEvent, rowIndex: number, cellIndex: number) => {
       const newActiveCell = { sheetIndex: activeSheetIndex, rowIndex, cellIndex };
-      if (e.shiftKey && activeCell) {
+      if (e.shiftKey && activeCell && (!viewActive || activeCell.rowIndex === rowIndex)) {
           setSelection({
               start: { row: Math.min(activeCell.rowIndex, rowIndex), col: Math.min(activeCell.cellIndex, cellIndex) },
               end: { row: Math.max(activeCell.rowIndex, rowIndex), col: Math.max(activeCell.cellIndex, cellIndex) },
@@ -153,28 +345,65 @@ const DataTable: React.FC<DataTableProps> = ({ sheets, editable = false, onCellC
       }
   };
 
+  // Handled on the container so the shortcuts work while a cell input has focus, replacing the input's own undo.
+  const handleShortcutKeys = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'f') {
+        e.preventDefault();
+        setShowFind(true);
+    } else if (!editable) {
+        return;
+    } else if (key === 'z' && !e.shiftKey && onUndo) {
+        e.preventDefault();
+        onUndo();
+    } else if (((key === 'z' && e.shiftKey) || key === 'y') && onRedo) {
+        e.preventDefault();
+        onRedo();
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent, rowIndex: number, cellIndex: number) => {
+    if (e.key === 'F8') {
+        e.preventDefault();
+        jumpToNextUncertain();
+        return;
+    }
     if (!['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Tab'].includes(e.key)) return;
     e.preventDefault();
 
     let nextRow = rowIndex, nextCell = cellIndex;
+    // Up and down follow the rows as displayed, skipping those a filter hides.
+    const position = rowOrder.indexOf(rowIndex);
+    const rowAt = (offset: number) => rowOrder[Math.max(0, Math.min(rowOrder.length - 1, position + offset))];
 
     switch (e.key) {
-      case 'ArrowUp': nextRow = Math.max(0, rowIndex - 1); break;
-      case 'ArrowDown': nextRow = Math.min(totalRows - 1, rowIndex + 1); break;
+      case 'ArrowUp': nextRow = rowAt(-1); break;
+      case 'ArrowDown': nextRow = rowAt(1); break;
       case 'ArrowLeft': nextCell = Math.max(0, cellIndex - 1); break;
       case 'ArrowRight': nextCell = Math.min(totalCols - 1, cellIndex + 1); break;
       case 'Tab':
         if (e.shiftKey) {
             if (cellIndex > 0) nextCell = cellIndex - 1;
-            else if (rowIndex > 0) { nextRow = rowIndex - 1; nextCell = totalCols - 1; }
+            else if (position > 0) { nextRow = rowAt(-1); nextCell = totalCols - 1; }
         } else {
             if (cellIndex < totalCols - 1) nextCell = cellIndex + 1;
-            else if (rowIndex < totalRows - 1) { nextRow = rowIndex + 1; nextCell = 0; }
+            else if (position < rowOrder.length - 1) { nextRow = rowAt(1); nextCell = 0; }
         }
         break;
     }
 
+    // Cells hidden under a merged range are edited through the range's top-left cell.
+    if (coveredCells.has(`${nextRow}:${nextCell}`)) {
+        const merge = getMergeRanges(displayData).find(m =>
+            nextRow >= m.row && nextRow < m.row + m.rowSpan && nextCell >= m.col && nextCell < m.col + m.colSpan
+        );
+        if (merge) {
+            nextRow = merge.row;
+            nextCell = merge.col;
+        }
+    }
+
     if (nextRow !== rowIndex || nextCell !== cellIndex) {
         const newActiveCell = { sheetIndex: activeSheetIndex, rowIndex: nextRow, cellIndex: nextCell };
         setActiveCell(newActiveCell);
@@ -204,12 +433,153 @@ const DataTable: React.FC<DataTableProps> = ({ sheets, editable = false, onCellC
 
       return style;
   };
+
+  // The fill goes on the cell itself so the selection and uncertainty tints of the inner div still show over it.
+  const getFillStyle = (cell: CellData): React.CSSProperties | undefined =>
+      cell.style?.fill ? { backgroundColor: cell.style.fill } : undefined;
   
+  const effectiveCopyScope: CopyScope = copyScope === 'selection' && !selection ? 'sheet' : copyScope;
+
+  // A selection of whole columns copies only the rows shown, in the order shown.
+  const sliceSelection = (sheet: SheetData, range: NonNullable<Selection>): SheetData => {
+      if (!viewActive) return sliceSheet(sheet, range);
+      const shown = rowOrder.filter(r => r >= range.start.row && r <= range.end.row);
+      const data = withoutBodyRowSpans(sheet.data, headerRowCount);
+      return sliceSheet(
+          { ...sheet, data: shown.map(r => data[r]), headerRowCount: shown.filter(r => r < headerRowCount).length },
+          { start: { row: 0, col: range.start.col }, end: { row: shown.length - 1, col: range.end.col } },
+      );
+  };
+
+  const handleCopy = async (format: TableCopyFormat) => {
+      // Whole sheets are copied as they are shown, sorted, filtered and with formula results.
+      const toCopy = effectiveCopyScope === 'all' ? sheets.map((sheet, index) => applySheetView(resolveFormulas(sheet), views[index]))
+          : effectiveCopyScope === 'selection' && selection ? [sliceSelection(resolvedSheet ?? activeSheet, selection)]
+          : [applySheetView(resolvedSheet ?? activeSheet, view)];
+      try {
+          await copySheetsToClipboard(toCopy, format);
+          setCopyStatus(`Copied ${COPY_FORMATS.find(f => f.value === format)?.label}`);
+      } catch (error) {
+          console.error("Failed to copy to the clipboard:", error);
+          setCopyStatus('Copy failed');
+      }
+      setTimeout(() => setCopyStatus(null), 2000);
+  };
+
+  const updateFindOptions = (options: FindOptions) => {
+      setFindOptions(options);
+      setMatchIndex(0);
+  };
+
+  const stepMatch = (offset: number) => {
+      if (matches.length === 0) return;
+      const current = Math.min(matchIndex, matches.length - 1);
+      setMatchIndex((current + offset + matches.length) % matches.length);
+  };
+
+  // A selection made in one order would cover other rows in the next, so it is dropped.
+  const updateView = (change: (current: SheetView) => SheetView) => {
+      onViewChange(prev => ({ ...prev, [activeSheetIndex]: change(prev[activeSheetIndex] ?? EMPTY_VIEW) }));
+      setActiveCell(null);
+      setSelection(null);
+  };
+
+  // Each click on a column's sort button cycles ascending, descending and back to extraction order.
+  const toggleSort = (column: number) => updateView(current => {
+      const { sort, ...rest } = current;
+      if (sort?.column !== column) return { ...rest, sort: { column, direction: 'asc' } };
+      return sort.direction === 'asc' ? { ...rest, sort: { column, direction: 'desc' } } : rest;
+  });
+
+  const setColumnFilter = (column: number, filter: ColumnFilter | undefined) => {
+      updateView(current => {
+          const { [column]: _, ...filters } = current.filters;
+          return { ...current, filters: filter ? { ...filters, [column]: filter } : filters };
+      });
+      setFilterMenu(null);
+  };
+
+  const renderColumnControls = (column: number) => {
+      const sort = view.sort?.column === column ? view.sort.direction : null;
+      const filtered = column in view.filters;
+      const SortIcon = sort === 'asc' ? ArrowUpIcon : sort === 'desc' ? ArrowDownIcon : ArrowsUpDownIcon;
+      const controlClass = (active: boolean) => `p-0.5 rounded hover:bg-secondary ${active ? 'text-primary' : 'text-text-secondary opacity-0 group-hover:opacity-100 focus:opacity-100'}`;
+      return (
+          <span className="flex-shrink-0 flex items-center" onClick={e => e.stopPropagation()}>
+              <button className={controlClass(!!sort)} onClick={() => toggleSort(column)} title={sort === 'asc' ? 'Sorted ascending' : sort === 'desc' ? 'Sorted descending' : 'Sort'} aria-label={`Sort column ${getColumnLetter(column)}`}>
+                  <SortIcon className="w-3.5 h-3.5" />
+              </button>
+              <button className={controlClass(filtered)} onClick={e => setFilterMenu({ column, anchor: e.currentTarget.getBoundingClientRect() })} title={filtered ? 'Filtered' : 'Filter'} aria-label={`Filter column ${getColumnLetter(column)}`}>
+                  <FunnelIcon className="w-3.5 h-3.5" />
+              </button>
+          </span>
+      );
+  };
+
+  // Row numbers and column letters are shown while editing structure; they select, and drag to move, whole rows and columns.
+  const showGutter = editable && !!onStructureChange;
+  const gutterClass = "px-2 text-center text-[10px] font-normal text-text-secondary bg-border-color select-none cursor-pointer";
+
+  const runStructureEdit = (edit: StructuralEdit, nextSelection: Selection = null) => {
+      onStructureChange?.(activeSheetIndex, edit);
+      setActiveCell(null);
+      setSelection(nextSelection);
+  };
+
+  const selectRow = (e: React.MouseEvent, rowIndex: number) => {
+      const extend = e.shiftKey && selection && !viewActive;
+      const start = extend ? Math.min(selection.start.row, rowIndex) : rowIndex;
+      const end = extend ? Math.max(selection.end.row, rowIndex) : rowIndex;
+      setActiveCell(null);
+      setSelection({ start: { row: start, col: 0 }, end: { row: end, col: Math.max(0, totalCols - 1) } });
+  };
+
+  const selectColumn = (e: React.MouseEvent, colIndex: number) => {
+      const start = e.shiftKey && selection ? Math.min(selection.start.col, colIndex) : colIndex;
+      const end = e.shiftKey && selection ? Math.max(selection.end.col, colIndex) : colIndex;
+      setActiveCell(null);
+      setSelection({ start: { row: 0, col: start }, end: { row: Math.max(0, totalRows - 1), col: end } });
+  };
+
+  const dragProps = (kind: 'row' | 'column', index: number) => ({
+      draggable: kind === 'column' || !viewActive,
+      onDragStart: (e: React.DragEvent) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDragging({ kind, index });
+      },
+      onDragOver: (e: React.DragEvent) => {
+          if (dragging?.kind === kind) e.preventDefault();
+      },
+      onDrop: (e: React.DragEvent) => {
+          e.preventDefault();
+          if (dragging?.kind === kind && dragging.index !== index) {
+              runStructureEdit(kind === 'row'
+                  ? { type: 'move-row', from: dragging.index, to: index }
+                  : { type: 'move-column', from: dragging.index, to: index },
+              kind === 'row'
+                  ? { start: { row: index, col: 0 }, end: { row: index, col: Math.max(0, totalCols - 1) } }
+                  : { start: { row: 0, col: index }, end: { row: Math.max(0, totalRows - 1), col: index } });
+          }
+          setDragging(null);
+      },
+      onDragEnd: () => setDragging(null),
+  });
+
+  const renderRowGutter = (rowIndex: number, Tag: 'th' | 'td') => showGutter && (
+      <Tag className={`${gutterClass} w-12 border-t border-border-color ${dragging?.kind === 'row' && dragging.index === rowIndex ? 'opacity-50' : ''}`} onClick={(e) => selectRow(e, rowIndex)} title={viewActive ? 'Click to select the row' : 'Click to select the row, drag to move it'} {...dragProps('row', rowIndex)}>
+          {rowIndex + 1}
+      </Tag>
+  );
+
+  const rowEditHint = viewActive ? 'Clear sort and filters to edit rows' : undefined;
+  const structureButtonClass = "px-2 py-0.5 text-xs rounded-md text-text-secondary hover:bg-border-color hover:text-text-main disabled:opacity-40 disabled:hover:bg-transparent";
+
   const activeCellData = activeCell ? sheets[activeCell.sheetIndex]?.data[activeCell.rowIndex]?.[activeCell.cellIndex] : null;
 
   return (
-    <div className="w-full bg-secondary rounded-lg border border-border-color shadow-lg overflow-hidden h-full flex flex-col">
+    <div className="w-full bg-secondary rounded-lg border border-border-color shadow-lg overflow-hidden h-full flex flex-col" onKeyDown={handleShortcutKeys}>
       {editable && <FormattingToolbar target={toolbarTarget} activeCellData={activeCellData} onStyleChange={(style) => onStyleChange?.(activeSheetIndex, selection, style)} />}
+      {filterMenu && <ColumnFilterPopover key={filterMenu.column} anchor={filterMenu.anchor} filter={view.filters[filterMenu.column]} onApply={filter => setColumnFilter(filterMenu.column, filter)} onClose={closeFilterMenu} />}
       <div className="p-4 border-b border-border-color">
         <div className="flex space-x-2 border-b border-border-color pb-2 mb-2 overflow-x-auto">
           {sheets.map((sheet, index) => (
@@ -218,38 +588,196 @@ const DataTable: React.FC<DataTableProps> = ({ sheets, editable = false, onCellC
             </button>
           ))}
         </div>
-        <h3 className="text-lg font-semibold text-text-main">{activeSheet.sheetName}</h3>
-        <p className="text-sm text-text-secondary">{rows.length} rows extracted</p>
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold text-text-main">{activeSheet.sheetName}</h3>
+          <div className="flex items-center gap-1 ml-auto text-sm">
+            <button onClick={() => setShowFind(s => !s)} className={`p-1 rounded-md transition-colors ${showFind ? 'bg-primary/10 text-primary' : 'text-text-secondary hover:bg-border-color hover:text-text-main'}`} title={editable ? 'Find and replace (Ctrl+F)' : 'Find (Ctrl+F)'} aria-label="Find">
+              <SearchIcon className="w-4 h-4" />
+            </button>
+            <span className="w-px h-4 bg-border-color mx-1"></span>
+            <span className="text-text-secondary">Copy</span>
+            <select
+              value={effectiveCopyScope}
+              onChange={e => setCopyScope(e.target.value as CopyScope)}
+              className="px-2 py-0.5 bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
+              aria-label="What to copy"
+            >
+              <option value="selection" disabled={!selection}>Selection</option>
+              <option value="sheet">This sheet</option>
+              <option value="all">All sheets</option>
+            </select>
+            {copyStatus ? (
+              <span className="px-2 text-text-secondary">{copyStatus}</span>
+            ) : COPY_FORMATS.map(({ value, label }) => (
+              <button key={value} onClick={() => handleCopy(value)} className="px-2 py-0.5 rounded-md text-text-secondary hover:bg-border-color hover:text-text-main" title={`Copy as ${label}`}>
+                {label}
+              </button>
+            ))}
+          </div>
+          {activeSheet.locale && (
+            editable ? (
+              <select
+                value={activeSheet.locale}
+                onChange={e => onLocaleChange?.(activeSheetIndex, e.target.value)}
+                className="px-2 py-0.5 text-sm bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
+                aria-label="Sheet locale"
+                title="Locale used to read numbers, currencies and dates in this sheet"
+              >
+                {SUPPORTED_LOCALES.map(l => <option key={l} value={l}>{l}</option>)}
+              </select>
+            ) : (
+              <span className="text-xs text-text-secondary" title="Locale used to read numbers, currencies and dates">{activeSheet.locale}</span>
+            )
+          )}
+        </div>
+        {showFind && (
+          <FindReplaceBar
+            options={findOptions}
+            onOptionsChange={updateFindOptions}
+            scope={findScope}
+            onScopeChange={scope => { setFindScope(scope); setMatchIndex(0); }}
+            hasSelection={!!selection}
+            replacement={replacement}
+            onReplacementChange={setReplacement}
+            matchCount={matches.length}
+            currentIndex={currentMatch ? matches.indexOf(currentMatch) : -1}
+            error={findError}
+            onNext={() => stepMatch(1)}
+            onPrevious={() => stepMatch(-1)}
+            onClose={() => setShowFind(false)}
+            onReplace={editable && onReplace ? () => currentMatch && onReplace([currentMatch], findOptions, replacement) : undefined}
+            onReplaceAll={editable && onReplace ? () => onReplace(matches, findOptions, replacement) : undefined}
+          />
+        )}
+        {showGutter && (
+          <div className="flex flex-wrap items-center gap-1 mb-2" aria-label="Row and column actions">
+            <span className="text-xs text-text-secondary mr-1">Rows</span>
+            <button className={structureButtonClass} disabled={!selection || viewActive} title={rowEditHint} onClick={() => selection && runStructureEdit({ type: 'insert-row', index: selection.start.row })}>Insert above</button>
+            <button className={structureButtonClass} disabled={!selection || viewActive} title={rowEditHint} onClick={() => selection && runStructureEdit({ type: 'insert-row', index: selection.end.row + 1 })}>Insert below</button>
+            <button className={structureButtonClass} disabled={!selection || viewActive} title={rowEditHint} onClick={() => selection && runStructureEdit({ type: 'duplicate-row', index: selection.start.row })}>Duplicate</button>
+            <button className={structureButtonClass} disabled={!selection || viewActive} title={rowEditHint} onClick={() => selection && runStructureEdit({ type: 'delete-rows', start: selection.start.row, count: selection.end.row - selection.start.row + 1 })}>Delete</button>
+            <button className={structureButtonClass} disabled={!selection || viewActive || selection.start.row + 1 === headerRowCount} onClick={() => selection && runStructureEdit({ type: 'promote-to-header', index: selection.start.row })} title={rowEditHint ?? 'Make this the last header row'}>Promote to header</button>
+            <span className="w-px h-4 bg-border-color mx-1"></span>
+            <span className="text-xs text-text-secondary mr-1">Columns</span>
+            <button className={structureButtonClass} disabled={!selection} onClick={() => selection && runStructureEdit({ type: 'insert-column', index: selection.start.col })}>Insert left</button>
+            <button className={structureButtonClass} disabled={!selection} onClick={() => selection && runStructureEdit({ type: 'insert-column', index: selection.end.col + 1 })}>Insert right</button>
+            <button className={structureButtonClass} disabled={!selection} onClick={() => selection && runStructureEdit({ type: 'delete-columns', start: selection.start.col, count: selection.end.col - selection.start.col + 1 })}>Delete</button>
+          </div>
+        )}
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          {viewActive ? (
+            <p className="text-sm text-text-secondary">
+              {visibleRowIndexes.length} of {rows.length} rows shown
+              <button onClick={() => updateView(() => EMPTY_VIEW)} className="ml-2 text-primary hover:underline">Clear sort and filters</button>
+            </p>
+          ) : (
+            <p className="text-sm text-text-secondary">{rows.length} rows extracted</p>
+          )}
+          {hasConfidence && (
+            <div className="flex items-center gap-3 text-sm">
+              <span className={uncertainCells.length > 0 ? 'text-amber-600 dark:text-amber-400 font-medium' : 'text-text-secondary'}>
+                {uncertainCells.length} uncertain {uncertainCells.length === 1 ? 'cell' : 'cells'}
+              </span>
+              <label className="flex items-center gap-1 text-text-secondary">
+                Below
+                <select
+                  value={confidenceThreshold}
+                  onChange={e => setConfidenceThreshold(parseFloat(e.target.value))}
+                  className="px-1 py-0.5 bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
+                >
+                  {CONFIDENCE_THRESHOLDS.map(t => <option key={t} value={t}>{Math.round(t * 100)}%</option>)}
+                </select>
+              </label>
+              {editable && (
+                <button
+                  onClick={jumpToNextUncertain}
+                  disabled={uncertainCells.length === 0}
+                  className="px-3 py-1 text-sm font-medium rounded-md bg-amber-500/10 text-amber-700 dark:text-amber-300 hover:bg-amber-500/20 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title="Jump to next uncertain cell (F8)"
+                >
+                  Next uncertain
+                </button>
+              )}
+            </div>
+          )}
+        </div>
       </div>
       <div ref={tableContainerRef} className="overflow-auto flex-grow relative">
         <table className="w-full text-sm text-left text-text-secondary table-fixed">
+          {activeSheet.columnWidths && (
+            <colgroup>
+              {showGutter && <col style={{ width: '3rem' }} />}
+              {activeSheet.columnWidths.map((width, index) => <col key={index} style={{ width: `calc(${width}ch + 3rem)` }} />)}
+            </colgroup>
+          )}
           <thead className="text-xs text-text-main uppercase bg-border-color sticky top-0 z-10">
-            <tr>
-              {headers.map((headerCell, index) => (
-                <th key={index} scope="col" className="p-0 whitespace-nowrap border-l border-b border-border-color first:border-l-0" style={getCellStyle(headerCell)}>
-                  <div className={`relative px-6 py-3 ${isCellSelected(0, index) ? 'bg-primary/20' : ''}`} onClick={(e) => editable && handleCellClick(e, 0, index)}>
-                    {editable && activeCell?.rowIndex === 0 && activeCell?.cellIndex === index ? (
-                      <input type="text" value={headerCell.value} onChange={(e) => onCellChange?.(activeSheetIndex, 0, index, e.target.value)} onKeyDown={(e) => handleKeyDown(e, 0, index)} className="w-full bg-transparent outline-none font-bold" data-row={0} data-cell={index}/>
-                    ) : ( headerCell.value )}
-                  </div>
-                </th>
-              ))}
-            </tr>
-          </thead>
-          <tbody>
-            {rows.map((row, rowIndex) => (
-              <tr key={rowIndex} className="bg-secondary last:border-b-0">
-                {row.map((cell, cellIndex) => (
-                  <td key={cellIndex} className={`p-0 whitespace-nowrap border-t border-l border-border-color first:border-l-0`}>
-                    <div className={`relative px-6 py-4 ${isCellSelected(rowIndex + 1, cellIndex) ? 'bg-primary/20' : ''}`} style={getCellStyle(cell)} onClick={(e) => editable && handleCellClick(e, rowIndex + 1, cellIndex)}>
-                        {editable && activeCell?.rowIndex === rowIndex + 1 && activeCell?.cellIndex === cellIndex ? (
-                            <input type="text" value={cell.value} onChange={(e) => onCellChange?.(activeSheetIndex, rowIndex + 1, cellIndex, e.target.value)} onKeyDown={(e) => handleKeyDown(e, rowIndex + 1, cellIndex)} className="w-full bg-transparent outline-none" data-row={rowIndex + 1} data-cell={cellIndex} style={{all: 'unset', width: '100%'}}/>
-                        ) : ( cell.value )}
+            {showGutter && (
+              <tr>
+                <th className={`${gutterClass} w-12`} aria-hidden="true"></th>
+                {Array.from({ length: totalCols }, (_, index) => (
+                  <th key={index} scope="col" className={`${gutterClass} border-l border-border-color ${dragging?.kind === 'column' && dragging.index === index ? 'opacity-50' : ''}`} onClick={(e) => selectColumn(e, index)} title="Click to select the column, drag to move it" {...dragProps('column', index)}>
+                    {getColumnLetter(index)}
+                  </th>
+                ))}
+              </tr>
+            )}
+            {headerRows.map((headerRow, headerIndex) => (
+              <tr key={headerIndex}>
+                {renderRowGutter(headerIndex, 'th')}
+                {headerRow.map((headerCell, index) => coveredCells.has(`${headerIndex}:${index}`) ? null : (
+                  <th key={index} scope="col" rowSpan={headerCell.rowSpan} colSpan={headerCell.colSpan} className={`p-0 whitespace-nowrap border-l border-b border-border-color first:border-l-0 ${headerCell.colSpan ? 'text-center' : ''}`} style={{ ...getCellStyle(headerCell), ...getFillStyle(headerCell) }}>
+                    <div className={`group relative px-6 py-3 flex items-center gap-1 ${getCellBackground(headerIndex, index, headerCell)}`} title={getCellTitle(headerIndex, index, headerCell)} onClick={(e) => handleCellClick(e, headerIndex, index)} data-current-match={isCurrentMatch(headerIndex, index) || undefined}>
+                      <div className="flex-grow min-w-0">
+                        {editable && activeCell?.rowIndex === headerIndex && activeCell?.cellIndex === index ? (
+                          <input type="text" value={headerCell.value} onChange={(e) => onCellChange?.(activeSheetIndex, headerIndex, index, e.target.value)} onKeyDown={(e) => handleKeyDown(e, headerIndex, index)} className="w-full bg-transparent outline-none font-bold" data-row={headerIndex} data-cell={index}/>
+                        ) : ( getDisplayValue(headerIndex, index, headerCell) )}
+                      </div>
+                      {headerIndex === headerRowCount - 1 && renderColumnControls(index)}
                     </div>
-                  </td>
+                  </th>
                 ))}
               </tr>
             ))}
+            {activeSheet.columnTypes && (
+              <tr>
+                {showGutter && <th className={`${gutterClass} w-12`} aria-hidden="true"></th>}
+                {headers.map((_, index) => (
+                  <th key={index} scope="col" className="px-6 py-1 font-normal normal-case border-l border-b border-border-color first:border-l-0">
+                    {editable ? (
+                      <select
+                        value={activeSheet.columnTypes?.[index] || 'text'}
+                        onChange={e => onColumnTypeChange?.(activeSheetIndex, index, e.target.value as ColumnType)}
+                        className="w-full px-1 py-0.5 text-xs bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
+                        aria-label={`Type of column ${index + 1}`}
+                      >
+                        {COLUMN_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                      </select>
+                    ) : (
+                      <span className="text-[10px] text-text-secondary">{activeSheet.columnTypes?.[index] || 'text'}</span>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            )}
+          </thead>
+          <tbody>
+            {visibleRowIndexes.map(rowIndex => {
+              const row = displayData[rowIndex];
+              return (
+                <tr key={rowIndex} className="bg-secondary last:border-b-0">
+                  {renderRowGutter(rowIndex, 'td')}
+                  {row.map((cell, cellIndex) => coveredCells.has(`${rowIndex}:${cellIndex}`) ? null : (
+                    <td key={cellIndex} rowSpan={cell.rowSpan} colSpan={cell.colSpan} className={`p-0 whitespace-nowrap border-t border-l border-border-color first:border-l-0`} style={getFillStyle(cell)}>
+                      <div className={`relative px-6 py-4 ${getCellBackground(rowIndex, cellIndex, cell)}`} title={getCellTitle(rowIndex, cellIndex, cell)} style={getCellStyle(cell)} onClick={(e) => handleCellClick(e, rowIndex, cellIndex)} data-current-match={isCurrentMatch(rowIndex, cellIndex) || undefined}>
+                          {editable && activeCell?.rowIndex === rowIndex && activeCell?.cellIndex === cellIndex ? (
+                              <input type="text" value={cell.value} onChange={(e) => onCellChange?.(activeSheetIndex, rowIndex, cellIndex, e.target.value)} onKeyDown={(e) => handleKeyDown(e, rowIndex, cellIndex)} className="w-full bg-transparent outline-none" data-row={rowIndex} data-cell={cellIndex} style={{all: 'unset', width: '100%'}}/>
+                          ) : ( getDisplayValue(rowIndex, cellIndex, cell) )}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
           </tbody>
         </table>
       </div>
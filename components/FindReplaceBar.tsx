@@ -0,0 +1,78 @@
+import React from 'react';
+import type { FindOptions, FindScope } from '../types';
+import { ArrowUpIcon, ArrowDownIcon, XMarkIcon } from './icons';
+
+interface FindReplaceBarProps {
+  options: FindOptions;
+  onOptionsChange: (options: FindOptions) => void;
+  scope: FindScope;
+  onScopeChange: (scope: FindScope) => void;
+  hasSelection: boolean;
+  replacement: string;
+  onReplacementChange: (replacement: string) => void;
+  matchCount: number;
+  /** Position of the highlighted match, or -1 when there is none. */
+  currentIndex: number;
+  error: string | null;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+  /** Left out in view mode, where the data cannot be changed. */
+  onReplace?: () => void;
+  onReplaceAll?: () => void;
+}
+
+const inputClass = "w-56 px-2 py-1 text-sm bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none";
+const buttonClass = "px-2 py-1 text-sm rounded-md text-text-secondary hover:bg-border-color hover:text-text-main disabled:opacity-40 disabled:hover:bg-transparent";
+const toggleClass = (active: boolean) => `px-1.5 py-0.5 text-xs font-mono rounded-md border transition-colors ${active ? 'bg-primary text-white border-primary' : 'border-border-color text-text-secondary hover:bg-border-color'}`;
+
+/** The find and replace controls shown above the table; matching itself happens in the table. */
+const FindReplaceBar: React.FC<FindReplaceBarProps> = ({
+  options, onOptionsChange, scope, onScopeChange, hasSelection, replacement, onReplacementChange,
+  matchCount, currentIndex, error, onNext, onPrevious, onClose, onReplace, onReplaceAll,
+}) => {
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !(e.target instanceof HTMLButtonElement)) {
+      e.preventDefault();
+      if (e.shiftKey) onPrevious(); else onNext();
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const status = error ?? (options.query ? (matchCount === 0 ? 'No matches' : `${currentIndex + 1} of ${matchCount}`) : '');
+
+  return (
+    <div className="flex flex-col gap-2 my-2 text-sm" onKeyDown={handleKeyDown}>
+      <div className="flex flex-wrap items-center gap-1">
+        <input type="text" value={options.query} onChange={e => onOptionsChange({ ...options, query: e.target.value })} className={inputClass} placeholder="Find" aria-label="Find" autoFocus />
+        <button className={toggleClass(options.matchCase)} onClick={() => onOptionsChange({ ...options, matchCase: !options.matchCase })} title="Match case" aria-pressed={options.matchCase}>Aa</button>
+        <button className={toggleClass(options.wholeCell)} onClick={() => onOptionsChange({ ...options, wholeCell: !options.wholeCell })} title="Match the whole cell" aria-pressed={options.wholeCell}>[ab]</button>
+        <button className={toggleClass(options.useRegex)} onClick={() => onOptionsChange({ ...options, useRegex: !options.useRegex })} title="Use a regular expression" aria-pressed={options.useRegex}>.*</button>
+        <select
+          value={scope === 'selection' && !hasSelection ? 'sheet' : scope}
+          onChange={e => onScopeChange(e.target.value as FindScope)}
+          className="px-2 py-0.5 bg-background border border-border-color rounded-md focus:ring-1 focus:ring-primary focus:outline-none"
+          aria-label="Where to search"
+        >
+          <option value="selection" disabled={!hasSelection}>Selection</option>
+          <option value="sheet">This sheet</option>
+          <option value="all">All sheets</option>
+        </select>
+        <span className={`px-2 min-w-[6rem] ${error ? 'text-red-500' : 'text-text-secondary'}`}>{status}</span>
+        <button className={buttonClass} onClick={onPrevious} disabled={matchCount === 0} title="Previous match (Shift+Enter)" aria-label="Previous match"><ArrowUpIcon className="w-4 h-4" /></button>
+        <button className={buttonClass} onClick={onNext} disabled={matchCount === 0} title="Next match (Enter)" aria-label="Next match"><ArrowDownIcon className="w-4 h-4" /></button>
+        <button className={`${buttonClass} ml-auto`} onClick={onClose} title="Close (Esc)" aria-label="Close find"><XMarkIcon className="w-4 h-4" /></button>
+      </div>
+      {onReplace && onReplaceAll && (
+        <div className="flex flex-wrap items-center gap-1">
+          <input type="text" value={replacement} onChange={e => onReplacementChange(e.target.value)} className={inputClass} placeholder={options.useRegex ? 'Replace ($1 for groups)' : 'Replace'} aria-label="Replace with" />
+          <button className={buttonClass} onClick={onReplace} disabled={currentIndex < 0}>Replace</button>
+          <button className={buttonClass} onClick={onReplaceAll} disabled={matchCount === 0}>Replace all</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FindReplaceBar;
@@ -0,0 +1,32 @@
+import React from 'react';
+import type { HistoryEntry } from '../services/editHistory';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  currentIndex: number;
+  onJump: (index: number) => void;
+}
+
+/** Lists the states of the editing session; states after the current one can still be redone. */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, currentIndex, onJump }) => (
+  <div className="w-56 flex-shrink-0 border-l border-border-color overflow-y-auto">
+    <h4 className="px-4 py-2 text-xs font-semibold uppercase text-text-secondary border-b border-border-color">History</h4>
+    <ol>
+      {entries.map((entry, index) => (
+        <li key={index}>
+          <button
+            onClick={() => onJump(index)}
+            className={`w-full text-left px-4 py-1.5 text-sm truncate transition-colors ${
+              index === currentIndex ? 'bg-primary/10 text-primary font-medium' : index > currentIndex ? 'text-text-secondary/60 hover:bg-border-color' : 'text-text-main hover:bg-border-color'
+            }`}
+            title={entry.label}
+          >
+            {entry.label}
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default HistoryPanel;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import type { SheetMergeMode, TargetWorkbook } from '../types';
+import { readTargetWorkbook, sanitizeSheetName } from '../services/workbookMerge';
+
+interface TargetWorkbookModalProps {
+  target: TargetWorkbook | null;
+  /** Names of the sheets extracted so far, offered for per-sheet overrides. */
+  extractedSheetNames: string[];
+  onSave: (target: TargetWorkbook | null) => void;
+  onClose: () => void;
+}
+
+const MODE_LABELS: Record<SheetMergeMode, string> = {
+  'new-sheet': 'Add as new sheet',
+  'append-rows': 'Append rows under matching headers',
+  'replace': 'Replace sheet with the same name',
+};
+
+// "a, b and c"
+const formatList = (items: string[]) => items.length > 1 ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}` : items[0];
+
+const selectClass = "w-full px-3 py-2 bg-background border border-border-color rounded-lg focus:ring-1 focus:ring-primary focus:outline-none";
+
+const TargetWorkbookModal: React.FC<TargetWorkbookModalProps> = ({ target: initialTarget, extractedSheetNames, onSave, onClose }) => {
+  const [target, setTarget] = useState<TargetWorkbook | null>(initialTarget);
+  const [error, setError] = useState<string | null>(null);
+  // A target saved earlier was already accepted with whatever it loses.
+  const [acceptedLoss, setAcceptedLoss] = useState(!!initialTarget);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const loaded = await readTargetWorkbook(file);
+      setTarget(prev => prev ? { ...loaded, defaultMode: prev.defaultMode, sheetModes: prev.sheetModes } : loaded);
+      setAcceptedLoss(false);
+      setError(null);
+    } catch (err) {
+      console.error("Failed to read target workbook:", err);
+      setError(err instanceof Error ? err.message : "The file could not be read as a workbook.");
+    }
+  };
+
+  const setSheetMode = (sheetName: string, mode: string) => {
+    setTarget(prev => {
+      if (!prev) return prev;
+      const sheetModes = { ...prev.sheetModes };
+      if (mode) sheetModes[sheetName] = mode as SheetMergeMode;
+      else delete sheetModes[sheetName];
+      return { ...prev, sheetModes };
+    });
+  };
+
+  const hasMatch = (sheetName: string) => !!target?.sheetNames.some(n => n.toLowerCase() === sanitizeSheetName(sheetName).toLowerCase());
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-secondary rounded-xl border border-border-color shadow-2xl p-6" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-text-main">Target Workbook</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-color text-text-secondary text-2xl leading-none">&times;</button>
+        </div>
+        <p className="text-sm text-text-secondary mb-4">Excel downloads are merged into a copy of this workbook instead of a new one. The uploaded file itself is not changed.</p>
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="target-workbook-file" className="block text-sm font-medium text-text-main mb-1">Workbook (.xlsx)</label>
+            <input id="target-workbook-file" type="file" accept=".xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFileChange} className="block w-full text-sm text-text-secondary" />
+            {target && <p className="mt-1 text-xs text-text-secondary">{target.fileName}: {target.sheetNames.join(', ')}</p>}
+            {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+          </div>
+          {target && target.unsupportedFeatures.length > 0 && (
+            <div className="p-3 text-sm rounded-lg border border-amber-500/40 bg-amber-500/10 text-amber-800 dark:text-amber-200">
+              <p>Merged downloads are rebuilt from this workbook's data and will not keep its {formatList(target.unsupportedFeatures)}. Keep the original and do not save a merged download over it.</p>
+              <label className="mt-2 flex items-center gap-2 font-medium">
+                <input type="checkbox" checked={acceptedLoss} onChange={e => setAcceptedLoss(e.target.checked)} />
+                Merge anyway
+              </label>
+            </div>
+          )}
+          {target && (
+            <>
+              <div>
+                <label htmlFor="target-default-mode" className="block text-sm font-medium text-text-main mb-1">For each extracted sheet</label>
+                <select id="target-default-mode" value={target.defaultMode} onChange={e => setTarget({ ...target, defaultMode: e.target.value as SheetMergeMode })} className={selectClass}>
+                  {(Object.keys(MODE_LABELS) as SheetMergeMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+                </select>
+                <p className="mt-1 text-xs text-text-secondary">Sheets with no sheet of the same name in the workbook are always added, with a number appended if needed.</p>
+              </div>
+              {extractedSheetNames.length > 0 && (
+                <div>
+                  <p className="block text-sm font-medium text-text-main mb-1">Per sheet</p>
+                  <div className="space-y-2">
+                    {extractedSheetNames.map(name => (
+                      <div key={name} className="flex items-center gap-2">
+                        <span className="w-1/3 truncate text-sm text-text-main" title={name}>
+                          {name}{!hasMatch(name) && <span className="text-text-secondary"> (new)</span>}
+                        </span>
+                        <select value={target.sheetModes[name] ?? ''} onChange={e => setSheetMode(name, e.target.value)} className={selectClass} aria-label={`Behavior for ${name}`}>
+                          <option value="">Default</option>
+                          {(Object.keys(MODE_LABELS) as SheetMergeMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+                        </select>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <div className="mt-6 flex justify-between gap-4">
+          <button type="button" onClick={() => onSave(null)} disabled={!initialTarget} className="px-4 py-2 text-sm font-semibold rounded-lg text-red-500 hover:bg-red-500/10 disabled:opacity-50 disabled:hover:bg-transparent transition-colors">Remove target</button>
+          <div className="flex gap-4">
+            <button type="button" onClick={onClose} className="px-6 py-2 text-sm font-semibold rounded-lg bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors">Cancel</button>
+            <button type="button" onClick={() => onSave(target)} disabled={!!target && target.unsupportedFeatures.length > 0 && !acceptedLoss} className="px-6 py-2 text-sm font-semibold rounded-lg bg-primary text-white hover:bg-primary-hover transition-colors disabled:opacity-50 disabled:hover:bg-primary">Save</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TargetWorkbookModal;
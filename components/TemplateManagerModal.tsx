@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import type { ExtractionTemplate, ColumnType } from '../types';
+import { COLUMN_TYPES } from '../services/valueParser';
+import { createEmptyTemplate } from '../services/templateService';
+import { TrashIcon } from './icons';
+
+interface TemplateManagerModalProps {
+  templates: ExtractionTemplate[];
+  onSave: (templates: ExtractionTemplate[]) => void;
+  onClose: () => void;
+}
+
+// Synonyms are edited as free text so commas can be typed, and split when saved.
+interface DraftColumn {
+  name: string;
+  type: ColumnType;
+  synonyms: string;
+}
+
+interface DraftTemplate {
+  id: string;
+  name: string;
+  columns: DraftColumn[];
+  hints: string;
+}
+
+const toDraft = (template: ExtractionTemplate): DraftTemplate => ({
+  ...template,
+  columns: template.columns.map(col => ({ ...col, synonyms: col.synonyms.join(', ') })),
+});
+
+const fromDraft = (draft: DraftTemplate): ExtractionTemplate => ({
+  id: draft.id,
+  name: draft.name.trim(),
+  hints: draft.hints.trim(),
+  columns: draft.columns
+    .filter(col => col.name.trim() !== '')
+    .map(col => ({ name: col.name.trim(), type: col.type, synonyms: col.synonyms.split(',').map(s => s.trim()).filter(Boolean) })),
+});
+
+const inputClass = "w-full px-3 py-1.5 text-sm bg-background border border-border-color rounded-lg focus:ring-1 focus:ring-primary focus:outline-none";
+
+const TemplateManagerModal: React.FC<TemplateManagerModalProps> = ({ templates, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<DraftTemplate[]>(() => templates.map(toDraft));
+  const [selectedId, setSelectedId] = useState<string | null>(templates[0]?.id ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = drafts.find(d => d.id === selectedId) || null;
+
+  const updateSelected = (update: (draft: DraftTemplate) => DraftTemplate) => {
+    setDrafts(prev => prev.map(d => d.id === selectedId ? update(d) : d));
+  };
+
+  const updateColumn = (index: number, changes: Partial<DraftColumn>) => {
+    updateSelected(d => ({ ...d, columns: d.columns.map((col, i) => i === index ? { ...col, ...changes } : col) }));
+  };
+
+  const handleNew = () => {
+    const draft = toDraft(createEmptyTemplate());
+    setDrafts(prev => [...prev, draft]);
+    setSelectedId(draft.id);
+  };
+
+  const handleDelete = () => {
+    const remaining = drafts.filter(d => d.id !== selectedId);
+    setDrafts(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+  };
+
+  const handleSave = () => {
+    const result = drafts.map(fromDraft);
+    const invalid = result.find(t => t.name === '' || t.columns.length === 0);
+    if (invalid) {
+      setSelectedId(invalid.id);
+      setError('Every template needs a name and at least one named column.');
+      return;
+    }
+    onSave(result);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="w-full max-w-4xl max-h-[90vh] bg-secondary rounded-xl border border-border-color shadow-2xl p-6 flex flex-col" onClick={e => e.stopPropagation()}>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-text-main">Extraction Templates</h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-border-color text-text-secondary text-2xl leading-none">&times;</button>
+        </div>
+        <div className="flex gap-4 flex-grow min-h-0">
+          <div className="w-48 flex-shrink-0 flex flex-col gap-2 overflow-y-auto">
+            {drafts.map(d => (
+              <button
+                key={d.id}
+                onClick={() => setSelectedId(d.id)}
+                className={`px-3 py-2 text-sm text-left rounded-md truncate transition-colors ${d.id === selectedId ? 'bg-primary text-white' : 'bg-background text-text-secondary hover:bg-border-color'}`}
+              >
+                {d.name || 'Untitled template'}
+              </button>
+            ))}
+            <button onClick={handleNew} className="px-3 py-2 text-sm font-medium rounded-md border border-dashed border-border-color text-primary hover:bg-primary/10">+ New template</button>
+          </div>
+          <div className="flex-grow overflow-y-auto pr-1">
+            {selected ? (
+              <div className="space-y-4">
+                <div>
+                  <label htmlFor="template-name" className="block text-sm font-medium text-text-main mb-1">Name</label>
+                  <input id="template-name" type="text" value={selected.name} onChange={e => updateSelected(d => ({ ...d, name: e.target.value }))} placeholder="e.g. Supplier invoice" className={inputClass} />
+                </div>
+                <div>
+                  <p className="block text-sm font-medium text-text-main mb-1">Columns</p>
+                  <div className="space-y-2">
+                    {selected.columns.map((col, index) => (
+                      <div key={index} className="flex items-center gap-2">
+                        <input type="text" value={col.name} onChange={e => updateColumn(index, { name: e.target.value })} placeholder="Column name" className={inputClass} aria-label={`Column ${index + 1} name`} />
+                        <select value={col.type} onChange={e => updateColumn(index, { type: e.target.value as ColumnType })} className={`${inputClass} w-32 flex-shrink-0`} aria-label={`Column ${index + 1} type`}>
+                          {COLUMN_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <input type="text" value={col.synonyms} onChange={e => updateColumn(index, { synonyms: e.target.value })} placeholder="Synonyms, comma separated" className={inputClass} aria-label={`Column ${index + 1} synonyms`} />
+                        <button
+                          onClick={() => updateSelected(d => ({ ...d, columns: d.columns.filter((_, i) => i !== index) }))}
+                          className="p-1.5 rounded-md hover:bg-border-color text-text-secondary hover:text-red-500 flex-shrink-0"
+                          aria-label={`Remove column ${index + 1}`}
+                        >
+                          <TrashIcon className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <button onClick={() => updateSelected(d => ({ ...d, columns: [...d.columns, { name: '', type: 'text', synonyms: '' }] }))} className="mt-2 px-3 py-1 text-sm font-medium text-primary hover:underline">+ Add column</button>
+                </div>
+                <div>
+                  <label htmlFor="template-hints" className="block text-sm font-medium text-text-main mb-1">Hints</label>
+                  <textarea id="template-hints" rows={3} value={selected.hints} onChange={e => updateSelected(d => ({ ...d, hints: e.target.value }))} placeholder="e.g. Ignore the remittance slip at the bottom of the last page." className={inputClass} />
+                </div>
+                <button onClick={handleDelete} className="flex items-center gap-2 px-3 py-1.5 text-sm font-semibold rounded-lg text-red-600 hover:bg-red-500/10 transition-colors">
+                  <TrashIcon className="w-4 h-4" />
+                  Delete template
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-text-secondary text-center py-10">Create a template to keep column names and order stable across documents.</p>
+            )}
+          </div>
+        </div>
+        {error && <p className="mt-4 text-sm text-red-500">{error}</p>}
+        <div className="mt-6 flex justify-end gap-4">
+          <button type="button" onClick={onClose} className="px-6 py-2 text-sm font-semibold rounded-lg bg-secondary text-text-secondary hover:bg-border-color border border-border-color transition-colors">Cancel</button>
+          <button type="button" onClick={handleSave} className="px-6 py-2 text-sm font-semibold rounded-lg bg-primary text-white hover:bg-primary-hover transition-colors">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateManagerModal;
@@ -0,0 +1,80 @@
+import type { BatchLayout, CellData, SheetData } from '../types';
+import { getUniqueSheetName, sanitizeSheetName, MAX_SHEET_NAME_LENGTH } from './workbookMerge';
+import { resolveFormulas } from './formulaEngine';
+
+export interface BatchSource {
+    fileName: string;
+    pageRange?: string;
+    sheets: SheetData[];
+}
+
+const INDEX_SHEET_NAME = 'Index';
+const INDEX_HEADERS = ['Tab', 'Source file', 'Page range', 'Extracted sheet', 'Rows'];
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Keeps the sheet part of a "file - sheet" tab name whole by shortening the file part instead.
+const joinTabName = (base: string, sheetName: string): string => {
+    const suffix = sanitizeSheetName(` - ${sheetName}`);
+    return sanitizeSheetName(base.substring(0, Math.max(1, MAX_SHEET_NAME_LENGTH - suffix.length)) + suffix);
+};
+
+const countDataRows = (sheet: SheetData) => Math.max(0, sheet.data.length - (sheet.headerRowCount ?? 1));
+
+/**
+ * Puts every sheet of one file on a single tab: each sheet sits under a bold row with its name and
+ * a blank row separates them. Column types differ between sheets, so the stacked tab has none.
+ * Stacking moves rows, so formulas are replaced by their results rather than left pointing elsewhere.
+ */
+const stackSheets = (sheets: SheetData[], sheetName: string): SheetData => {
+    if (sheets.length === 1) return { ...sheets[0], sheetName };
+    const data: CellData[][] = [];
+    sheets.forEach((sheet, i) => {
+        if (i > 0) data.push([]);
+        data.push([{ value: sheet.sheetName, style: { bold: true } }]);
+        data.push(...resolveFormulas(sheet).data);
+    });
+    return { sheetName, data, locale: sheets[0].locale };
+};
+
+/**
+ * Combines the sheets of several jobs into one set of tabs, led by an index sheet that lists each
+ * source file, page range and extracted sheet with the tab it ended up on. Tab names are made
+ * unique within Excel's 31-character limit before anything is written, so the index matches them.
+ */
+export const buildBatchSheets = (sources: BatchSource[], layout: Exclude<BatchLayout, 'separate'>): SheetData[] => {
+    const usedNames = [INDEX_SHEET_NAME];
+    const claimName = (name: string) => {
+        const unique = getUniqueSheetName(usedNames, sanitizeSheetName(name));
+        usedNames.push(unique);
+        return unique;
+    };
+
+    const tabs: SheetData[] = [];
+    const indexRows: string[][] = [];
+    for (const source of sources) {
+        const base = stripExtension(source.fileName);
+        const pageRange = source.pageRange?.trim() || 'All';
+        if (layout === 'tab-per-file') {
+            const tabName = claimName(base);
+            tabs.push(stackSheets(source.sheets, tabName));
+            source.sheets.forEach(sheet => indexRows.push([tabName, source.fileName, pageRange, sheet.sheetName, String(countDataRows(sheet))]));
+        } else {
+            source.sheets.forEach(sheet => {
+                const tabName = claimName(source.sheets.length === 1 ? base : joinTabName(base, sheet.sheetName));
+                tabs.push({ ...sheet, sheetName: tabName });
+                indexRows.push([tabName, source.fileName, pageRange, sheet.sheetName, String(countDataRows(sheet))]);
+            });
+        }
+    }
+
+    const index: SheetData = {
+        sheetName: INDEX_SHEET_NAME,
+        data: [
+            INDEX_HEADERS.map(value => ({ value, style: { bold: true } })),
+            ...indexRows.map(row => row.map(value => ({ value }))),
+        ],
+        columnTypes: ['text', 'text', 'text', 'text', 'integer'],
+    };
+    return [index, ...tabs];
+};
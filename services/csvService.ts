@@ -0,0 +1,98 @@
+import type { CsvOptions, RawSheetData, SheetData } from '../types';
+
+export const DEFAULT_CSV_OPTIONS: CsvOptions = { delimiter: ',', quoteAll: false, includeBom: false, lineEnding: 'crlf' };
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+    { value: ',', label: 'Comma (,)' },
+    { value: ';', label: 'Semicolon (;)' },
+    { value: '\t', label: 'Tab' },
+    { value: '|', label: 'Pipe (|)' },
+];
+
+const quoteField = (value: string, { delimiter, quoteAll }: CsvOptions) => {
+    const needsQuotes = quoteAll || value.includes(delimiter) || /["\r\n]/.test(value) || value !== value.trim();
+    return needsQuotes ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/** Serializes a sheet as delimited text. Cells hidden under a merge are written as empty fields. */
+export const sheetToDelimitedText = (sheet: SheetData, options: CsvOptions): string => {
+    const eol = options.lineEnding === 'crlf' ? '\r\n' : '\n';
+    return sheet.data
+        .map(row => row.map(cell => quoteField(cell.value ?? '', options)).join(options.delimiter))
+        .join(eol) + eol;
+};
+
+export const createDelimitedBlob = (text: string, options: CsvOptions): Blob => {
+    const type = options.delimiter === '\t' ? 'text/tab-separated-values' : 'text/csv';
+    return new Blob([options.includeBom ? '\uFEFF' + text : text], { type: `${type};charset=utf-8` });
+};
+
+// Picks the candidate that splits the first line into the most fields, ignoring quoted text.
+const detectDelimiter = (text: string): string => {
+    const firstLine = (text.split(/\r?\n/, 1)[0] ?? '').replace(/"[^"]*"/g, '');
+    let best = ',';
+    let bestCount = 0;
+    for (const { value } of CSV_DELIMITERS) {
+        const count = firstLine.split(value).length - 1;
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    }
+    return best;
+};
+
+/**
+ * Parses RFC 4180 style delimited text: quoted fields may contain delimiters, doubled quotes
+ * and line breaks. The delimiter is detected from the first line when not given.
+ */
+export const parseDelimitedText = (input: string, delimiter?: string): string[][] => {
+    const text = input.replace(/^\uFEFF/, '');
+    const sep = delimiter ?? detectDelimiter(text);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inQuotes) {
+            if (ch === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (ch === '"') {
+                inQuotes = false;
+            } else {
+                field += ch;
+            }
+        } else if (ch === '"' && field === '') {
+            inQuotes = true;
+        } else if (ch === sep) {
+            row.push(field);
+            field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+export const isDelimitedFileName = (fileName: string) => /\.(csv|tsv|txt)$/i.test(fileName);
+
+export const readDelimitedFile = async (file: File): Promise<RawSheetData> => {
+    const text = await file.text();
+    return {
+        sheetName: file.name.replace(/\.[^.]+$/, '').slice(0, 31) || 'Sheet1',
+        data: parseDelimitedText(text, /\.tsv$/i.test(file.name) ? '\t' : undefined),
+    };
+};
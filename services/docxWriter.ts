@@ -0,0 +1,145 @@
+import type { CellData, CellStyle, SheetData } from '../types';
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const W_NAMESPACE = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+// Text width of a Letter or A4 page with one-inch margins, in twentieths of a point.
+const TABLE_WIDTH_TWIPS = 9360;
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const PACKAGE_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Word falls back to unstyled text when a referenced style is missing, so the few used here are defined.
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles ${W_NAMESPACE}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="20"/></w:rPr></w:rPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/></w:tblBorders><w:tblCellMar><w:left w:w="80" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`;
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const toWordColor = (color: string) => color.replace(/^#/, '').toUpperCase();
+
+const buildRunProperties = (style: CellStyle | undefined): string => {
+    if (!style) return '';
+    const props: string[] = [];
+    if (style.bold) props.push('<w:b/>');
+    if (style.italic) props.push('<w:i/>');
+    if (style.strikethrough) props.push('<w:strike/>');
+    if (style.color) props.push(`<w:color w:val="${escapeXml(toWordColor(style.color))}"/>`);
+    if (style.underline) props.push('<w:u w:val="single"/>');
+    return props.length > 0 ? `<w:rPr>${props.join('')}</w:rPr>` : '';
+};
+
+// Line breaks inside a value become breaks within one run, as Word does for Shift+Enter.
+const buildParagraph = (cell: CellData): string => {
+    const pPr = cell.style?.align ? `<w:pPr><w:jc w:val="${cell.style.align}"/></w:pPr>` : '';
+    if (cell.value === '') return `<w:p>${pPr}</w:p>`;
+    const text = cell.value.split(/\r?\n/).map(line => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`).join('<w:br/>');
+    return `<w:p>${pPr}<w:r>${buildRunProperties(cell.style)}${text}</w:r></w:p>`;
+};
+
+const getGridWidths = (sheet: SheetData, columnCount: number): number[] => {
+    const weights = Array.from({ length: columnCount }, (_, c) => sheet.columnWidths?.[c] || 1);
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    return weights.map(w => Math.max(1, Math.round(TABLE_WIDTH_TWIPS * w / total)));
+};
+
+/**
+ * Writes a sheet as a Word table. Horizontal merges become grid spans on the top-left cell;
+ * vertical ones start a vMerge there and continue it in the same column of the rows below.
+ */
+const buildTableXml = (sheet: SheetData): string => {
+    const columnCount = Math.max(1, ...sheet.data.map(row => row.length));
+    const headerRowCount = sheet.headerRowCount ?? 1;
+
+    const anchors = new Map<string, { row: number; col: number; colSpan: number }>();
+    sheet.data.forEach((row, r) => row.forEach((cell, c) => {
+        const rowSpan = cell.rowSpan ?? 1;
+        const colSpan = cell.colSpan ?? 1;
+        if (rowSpan === 1 && colSpan === 1) return;
+        for (let rr = r; rr < r + rowSpan; rr++) {
+            for (let cc = c; cc < c + colSpan; cc++) anchors.set(`${rr}:${cc}`, { row: r, col: c, colSpan });
+        }
+    }));
+
+    const rows = sheet.data.map((row, r) => {
+        const cells: string[] = [];
+        for (let c = 0; c < columnCount; c++) {
+            const anchor = anchors.get(`${r}:${c}`);
+            if (anchor && (anchor.row !== r || anchor.col !== c)) {
+                // Only the first column of a continued vertical merge is written; the rest is covered by its span.
+                if (anchor.row !== r && anchor.col === c) {
+                    const span = anchor.colSpan > 1 ? `<w:gridSpan w:val="${anchor.colSpan}"/>` : '';
+                    cells.push(`<w:tc><w:tcPr>${span}<w:vMerge/></w:tcPr><w:p/></w:tc>`);
+                }
+                continue;
+            }
+            const cell = row[c] ?? { value: '' };
+            const props: string[] = [];
+            if (cell.colSpan && cell.colSpan > 1) props.push(`<w:gridSpan w:val="${cell.colSpan}"/>`);
+            if (cell.rowSpan && cell.rowSpan > 1) props.push('<w:vMerge w:val="restart"/>');
+            if (cell.style?.fill) props.push(`<w:shd w:val="clear" w:color="auto" w:fill="${escapeXml(toWordColor(cell.style.fill))}"/>`);
+            cells.push(`<w:tc>${props.length > 0 ? `<w:tcPr>${props.join('')}</w:tcPr>` : ''}${buildParagraph(cell)}</w:tc>`);
+        }
+        // Header rows repeat at the top of every page the table runs onto.
+        const trPr = r < headerRowCount ? '<w:trPr><w:tblHeader/></w:trPr>' : '';
+        return `<w:tr>${trPr}${cells.join('')}</w:tr>`;
+    });
+
+    const grid = getGridWidths(sheet, columnCount).map(w => `<w:gridCol w:w="${w}"/>`).join('');
+    return '<w:tbl>'
+        + '<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/><w:tblLayout w:type="fixed"/></w:tblPr>'
+        + `<w:tblGrid>${grid}</w:tblGrid>`
+        + rows.join('')
+        + '</w:tbl>';
+};
+
+/**
+ * Writes sheets as a Word document with a heading and a table per sheet, carrying each cell's
+ * CellStyle into its run and paragraph.
+ */
+export const createDocxBlob = async (sheets: SheetData[]): Promise<Blob> => {
+    // Word needs a paragraph between two tables and one before the section properties.
+    const body = sheets.map(sheet =>
+        `<w:p><w:pPr><w:pStyle w:val="Heading1"/></w:pPr><w:r><w:t xml:space="preserve">${escapeXml(sheet.sheetName)}</w:t></w:r></w:p>`
+        + buildTableXml(sheet)
+        + '<w:p/>'
+    ).join('');
+    const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+        + `<w:document ${W_NAMESPACE}><w:body>${body}`
+        + '<w:sectPr><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>'
+        + '</w:body></w:document>';
+
+    // @ts-ignore
+    const zip = new JSZip();
+    zip.file('[Content_Types].xml', CONTENT_TYPES);
+    zip.file('_rels/.rels', PACKAGE_RELS);
+    zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS);
+    zip.file('word/styles.xml', STYLES);
+    zip.file('word/document.xml', document);
+    return zip.generateAsync({ type: 'blob', mimeType: DOCX_MIME_TYPE, compression: 'DEFLATE' });
+};
@@ -0,0 +1,91 @@
+import type { SheetData, SheetView } from '../types';
+import { remapViewColumns } from './sheetView';
+
+/** Oldest states are dropped beyond this many, so a long session does not hold every snapshot. */
+export const MAX_HISTORY_ENTRIES = 50;
+
+/** How a structural edit moved one sheet's columns: `columnMap[column]` is where that column was before, or null if inserted. */
+export interface ColumnMove {
+    sheetIndex: number;
+    columnMap: (number | null)[];
+}
+
+export interface HistoryEntry {
+    label: string;
+    sheets: SheetData[];
+    /** Consecutive edits with the same key (e.g. typing into one cell) collapse into one entry. */
+    mergeKey?: string;
+    /** Set for structural edits, so sort and filter columns can follow the columns back and forth. */
+    columnMove?: ColumnMove;
+}
+
+/** Snapshots of an editing session; `entries[index]` is the state being shown. */
+export interface EditHistory {
+    entries: HistoryEntry[];
+    index: number;
+}
+
+export const createHistory = (sheets: SheetData[], label = 'Opened'): EditHistory => ({
+    entries: [{ label, sheets }],
+    index: 0,
+});
+
+export const getCurrentSheets = (history: EditHistory): SheetData[] => history.entries[history.index].sheets;
+
+export const canUndo = (history: EditHistory) => history.index > 0;
+
+export const canRedo = (history: EditHistory) => history.index < history.entries.length - 1;
+
+/**
+ * Records a new state after the current one, discarding any states that were undone. When the
+ * current state is the latest and has the same merge key, it is replaced instead.
+ */
+export const pushHistory = (history: EditHistory, sheets: SheetData[], label: string, mergeKey?: string, columnMove?: ColumnMove): EditHistory => {
+    const current = history.entries[history.index];
+    if (mergeKey && current.mergeKey === mergeKey && !canRedo(history) && history.index > 0) {
+        const entries = [...history.entries];
+        entries[history.index] = { ...current, sheets };
+        return { entries, index: history.index };
+    }
+    const entries = [...history.entries.slice(0, history.index + 1), { label, sheets, mergeKey, columnMove }].slice(-MAX_HISTORY_ENTRIES);
+    return { entries, index: entries.length - 1 };
+};
+
+const clampIndex = (history: EditHistory, index: number) => Math.max(0, Math.min(index, history.entries.length - 1));
+
+/** Moves to another recorded state without discarding anything, so it can be redone. */
+export const jumpToHistory = (history: EditHistory, index: number): EditHistory => ({
+    ...history,
+    index: clampIndex(history, index),
+});
+
+/**
+ * Sort and filter state with its columns moved as `move` moved them, or back again when undoing.
+ * Criteria on a column that no longer exists on that side of the edit are dropped.
+ */
+export const moveViewColumns = (views: Record<number, SheetView>, move: ColumnMove, direction: 'redo' | 'undo'): Record<number, SheetView> => {
+    const view = views[move.sheetIndex];
+    if (!view) return views;
+    const remap = direction === 'undo'
+        ? (column: number) => move.columnMap[column] ?? null
+        : (column: number) => {
+            const position = move.columnMap.indexOf(column);
+            return position === -1 ? null : position;
+        };
+    return { ...views, [move.sheetIndex]: remapViewColumns(view, remap) };
+};
+
+/** Sort and filter state for the sheets of `entries[index]`, undoing or redoing each structural edit passed over on the way. */
+export const remapViewsForJump = (views: Record<number, SheetView>, history: EditHistory, index: number): Record<number, SheetView> => {
+    const target = clampIndex(history, index);
+    let result = views;
+    for (let i = history.index; i > target; i--) {
+        const move = history.entries[i].columnMove;
+        if (move) result = moveViewColumns(result, move, 'undo');
+    }
+    for (let i = history.index + 1; i <= target; i++) {
+        const move = history.entries[i].columnMove;
+        if (move) result = moveViewColumns(result, move, 'redo');
+    }
+    return result;
+};
@@ -0,0 +1,110 @@
+import type { ExtractionErrorCode } from '../types';
+
+export const ERROR_CODE_LABELS: Record<ExtractionErrorCode, string> = {
+    rate_limit: 'Rate limited',
+    network: 'Network error',
+    service_unavailable: 'Service unavailable',
+    malformed_response: 'Malformed AI response',
+    empty_response: 'Empty AI response',
+    safety_block: 'Blocked by safety filter',
+    no_tables: 'No tables found',
+    no_fields: 'No fields found',
+    invalid_document: 'Unreadable document',
+    configuration: 'Configuration error',
+    interrupted: 'Interrupted',
+    cancelled: 'Cancelled',
+    unknown: 'Unknown error',
+};
+
+// Model output is non-deterministic, so a malformed or empty response is worth asking for again.
+const TRANSIENT_CODES: ExtractionErrorCode[] = ['rate_limit', 'network', 'service_unavailable', 'malformed_response', 'empty_response'];
+
+export class ExtractionError extends Error {
+    code: ExtractionErrorCode;
+
+    constructor(code: ExtractionErrorCode, message: string) {
+        super(message);
+        this.name = 'ExtractionError';
+        this.code = code;
+    }
+
+    get retryable(): boolean {
+        return TRANSIENT_CODES.includes(this.code);
+    }
+}
+
+// A status code only counts when the message presents it as one ("status: 503", "HTTP 503", "\"code\":503"),
+// so amounts or row counts that happen to contain 429 or 500 are not mistaken for server errors.
+const mentionsHttpStatus = (message: string, codes: string) =>
+    new RegExp(`(?:status|code|HTTP)\\W{0,3}(?:${codes})\\b`, 'i').test(message);
+
+/** Maps anything thrown during a conversion onto an ExtractionError with a stable code. */
+export const classifyError = (error: unknown): ExtractionError => {
+    if (error instanceof ExtractionError) return error;
+    if ((error as { name?: unknown })?.name === 'AbortError') {
+        return new ExtractionError('cancelled', "The conversion was cancelled.");
+    }
+
+    const message = error instanceof Error ? error.message : "An unexpected error occurred.";
+    const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : null;
+
+    if (status === 429 || mentionsHttpStatus(message, '429') || /rate limit|quota|RESOURCE_EXHAUSTED/i.test(message)) {
+        return new ExtractionError('rate_limit', "The AI service is rate limiting requests.");
+    }
+    if ((status !== null && status >= 500) || mentionsHttpStatus(message, '50[0-9]') || /UNAVAILABLE|overloaded|DEADLINE_EXCEEDED/i.test(message)) {
+        return new ExtractionError('service_unavailable', "The AI service is temporarily unavailable.");
+    }
+    if ((error instanceof TypeError && /fetch|network/i.test(message)) || /network|failed to fetch|ECONNRESET|ETIMEDOUT/i.test(message)) {
+        return new ExtractionError('network', "A network error interrupted the request.");
+    }
+    if (status === 401 || status === 403 || /API key|API_KEY|PERMISSION_DENIED/i.test(message)) {
+        return new ExtractionError('configuration', message);
+    }
+    return new ExtractionError('unknown', message);
+};
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new ExtractionError('cancelled', "The conversion was cancelled.");
+};
+
+/** Resolves after `ms`, or rejects as cancelled as soon as `signal` aborts. */
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    throwIfCancelled(signal);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new ExtractionError('cancelled', "The conversion was cancelled."));
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface RetryOptions {
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (error: ExtractionError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff and jitter.
+ * Permanent failures are rethrown immediately, and no new attempt starts once `signal` aborts.
+ */
+export const withRetry = async <T>(task: () => Promise<T>, { maxAttempts = 4, baseDelayMs = 1000, signal, onRetry }: RetryOptions = {}): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+        throwIfCancelled(signal);
+        try {
+            return await task();
+        } catch (error) {
+            // Whatever the aborted request threw, report it as a cancellation.
+            throwIfCancelled(signal);
+            const classified = classifyError(error);
+            if (!classified.retryable || attempt >= maxAttempts) throw classified;
+            const delayMs = baseDelayMs * 2 ** (attempt - 1) + Math.floor(Math.random() * 250);
+            onRetry?.(classified, attempt, delayMs);
+            await delay(delayMs, signal);
+        }
+    }
+};
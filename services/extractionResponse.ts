@@ -0,0 +1,171 @@
+import type { RawSheetData, BoundingBox, CellMerge, FormField } from '../types';
+import { ExtractionError } from './extractionErrors';
+
+const RECORDINGS_STORAGE_KEY = 'extraction-recordings';
+const MAX_STORED_RECORDINGS = 25;
+
+export interface RecordedExtraction {
+    fingerprint: string;
+    responseText: string;
+    // Recordings made before form extraction existed have no kind and hold tables.
+    kind?: 'tables' | 'fields';
+}
+
+type ResponseCell = string | { value?: string; confidence?: number; box?: BoundingBox };
+
+const clampUnit = (n: number) => Math.min(1, Math.max(0, n));
+
+const normalizeBox = (box: BoundingBox | undefined): BoundingBox | null => {
+    if (!box || [box.page, box.x, box.y, box.width, box.height].some(n => typeof n !== 'number' || isNaN(n))) return null;
+    return { page: box.page, x: clampUnit(box.x), y: clampUnit(box.y), width: clampUnit(box.width), height: clampUnit(box.height) };
+};
+
+type ResponseSheet = { sheetName: string; data: ResponseCell[][]; merges?: CellMerge[]; headerRowCount?: number };
+
+// Drops merges that fall outside the grid or overlap one already accepted.
+const normalizeMerges = (merges: CellMerge[] | undefined, data: string[][]): CellMerge[] => {
+    const accepted: CellMerge[] = [];
+    const taken = new Set<string>();
+    for (const merge of merges || []) {
+        const { row, col } = merge;
+        const rowSpan = Math.max(1, Math.floor(merge.rowSpan || 1));
+        const colSpan = Math.max(1, Math.floor(merge.colSpan || 1));
+        if (rowSpan === 1 && colSpan === 1) continue;
+        if (row < 0 || col < 0 || row + rowSpan > data.length || data.slice(row, row + rowSpan).some(r => col + colSpan > r.length)) continue;
+        const keys: string[] = [];
+        for (let r = row; r < row + rowSpan; r++) {
+            for (let c = col; c < col + colSpan; c++) keys.push(`${r}:${c}`);
+        }
+        if (keys.some(k => taken.has(k))) continue;
+        keys.forEach(k => taken.add(k));
+        accepted.push({ row, col, rowSpan, colSpan });
+    }
+    return accepted;
+};
+
+// Older recordings and simpler providers return bare strings; newer ones return cell objects.
+const normalizeSheet = (sheet: ResponseSheet): RawSheetData => {
+    const data = sheet.data.map(row => row.map(cell => typeof cell === 'string' ? cell : String(cell?.value ?? '')));
+    const normalized: RawSheetData = { sheetName: sheet.sheetName, data };
+
+    const merges = normalizeMerges(sheet.merges, data);
+    if (merges.length > 0) normalized.merges = merges;
+    const headerRowCount = Math.floor(sheet.headerRowCount || 1);
+    if (headerRowCount > 1 && headerRowCount < data.length) normalized.headerRowCount = headerRowCount;
+
+    const hasCellObjects = sheet.data.some(row => row.some(cell => typeof cell === 'object' && cell !== null));
+    if (!hasCellObjects) {
+        return normalized;
+    }
+    return {
+        ...normalized,
+        confidence: sheet.data.map(row => row.map(cell =>
+            typeof cell === 'object' && cell !== null && typeof cell.confidence === 'number' ? clampUnit(cell.confidence) : null
+        )),
+        sourceBoxes: sheet.data.map(row => row.map(cell =>
+            typeof cell === 'object' && cell !== null ? normalizeBox(cell.box) : null
+        )),
+    };
+};
+
+/**
+ * Validates the JSON text returned by a vision model and reduces it to the sheets that
+ * actually contain data rows. Every provider funnels its output through here so that
+ * live and replayed responses fail in exactly the same way.
+ */
+export const parseExtractionResponse = (jsonString: string | undefined): RawSheetData[] => {
+    if (!jsonString) {
+        throw new ExtractionError('empty_response', "The AI returned an empty response. No data could be extracted.");
+    }
+
+    let result;
+    try {
+        result = JSON.parse(jsonString);
+    } catch (parseError) {
+        throw new ExtractionError('malformed_response', "The AI returned a malformed data structure that could not be read.");
+    }
+
+    if (!result.sheets || !Array.isArray(result.sheets)) {
+        throw new ExtractionError('malformed_response', "The AI response was missing the expected 'sheets' data structure.");
+    }
+
+    if (result.sheets.length === 0) {
+        throw new ExtractionError('no_tables', "No tables were detected in the document.");
+    }
+
+    const validSheets = result.sheets.filter((sheet: {data?: any[][]}) =>
+        sheet.data && sheet.data.length > 1 && sheet.data[0] && sheet.data[0].length > 0
+    ).map(normalizeSheet);
+
+    if (validSheets.length === 0) {
+        throw new ExtractionError('no_tables', "The detected tables appear to be empty or contain only headers.");
+    }
+
+    return validSheets;
+};
+
+/** Validates a key-value form response and drops fields without a label. */
+export const parseFormResponse = (jsonString: string | undefined): FormField[] => {
+    if (!jsonString) {
+        throw new ExtractionError('empty_response', "The AI returned an empty response. No data could be extracted.");
+    }
+
+    let result;
+    try {
+        result = JSON.parse(jsonString);
+    } catch (parseError) {
+        throw new ExtractionError('malformed_response', "The AI returned a malformed data structure that could not be read.");
+    }
+
+    if (!result.fields || !Array.isArray(result.fields)) {
+        throw new ExtractionError('malformed_response', "The AI response was missing the expected 'fields' data structure.");
+    }
+
+    const fields: FormField[] = result.fields
+        .filter((field: { label?: unknown }) => typeof field?.label === 'string' && field.label.trim() !== '')
+        .map((field: { label: string; value?: unknown; confidence?: unknown }) => ({
+            label: field.label.trim(),
+            value: field.value == null ? '' : String(field.value),
+            ...(typeof field.confidence === 'number' && { confidence: clampUnit(field.confidence) }),
+        }));
+
+    if (fields.length === 0) {
+        throw new ExtractionError('no_fields', "No labeled fields were detected in the document.");
+    }
+
+    return fields;
+};
+
+// FNV-1a over the page payloads; stable across sessions so recordings can be replayed.
+export const fingerprintImages = (images: string[]): string => {
+    let hash = 0x811c9dc5;
+    for (const image of images) {
+        for (let i = 0; i < image.length; i++) {
+            hash ^= image.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        hash ^= 0x7c;
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const loadRecordedExtractions = (): RecordedExtraction[] => {
+    try {
+        const saved = localStorage.getItem(RECORDINGS_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Failed to load recorded extractions:", error);
+        return [];
+    }
+};
+
+export const saveRecordedExtraction = (recording: RecordedExtraction) => {
+    try {
+        const kind = recording.kind ?? 'tables';
+        const recordings = loadRecordedExtractions().filter(r => r.fingerprint !== recording.fingerprint || (r.kind ?? 'tables') !== kind);
+        recordings.push(recording);
+        localStorage.setItem(RECORDINGS_STORAGE_KEY, JSON.stringify(recordings.slice(-MAX_STORED_RECORDINGS)));
+    } catch (error) {
+        console.error("Failed to save recorded extraction:", error);
+    }
+};
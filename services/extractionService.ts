@@ -0,0 +1,156 @@
+import type { ExtractionProvider, ExtractionTemplate, FormField, RawSheetData } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockExtractionService';
+import { headersMatch, appendSheetRows } from './sheetUtils';
+import { conformSheetToTemplate } from './templateService';
+import { conformFieldsToTemplate } from './formService';
+import { ExtractionError, withRetry, throwIfCancelled } from './extractionErrors';
+
+export const EXTRACTION_PROVIDERS: ExtractionProvider[] = [geminiProvider, mockProvider];
+
+const DEFAULT_BATCH_SIZE = Number(process.env.EXTRACTION_BATCH_SIZE) || 10;
+const DEFAULT_BATCH_CONCURRENCY = Number(process.env.EXTRACTION_CONCURRENCY) || 2;
+
+export interface ExtractionOptions {
+    batchSize?: number;
+    concurrency?: number;
+    template?: ExtractionTemplate;
+    signal?: AbortSignal;
+    onProgress?: (message: string) => void;
+    onRetry?: (error: ExtractionError, attempt: number, delayMs: number) => void;
+}
+
+export const getExtractionProvider = (id?: string): ExtractionProvider => {
+    const requested = id ?? process.env.EXTRACTION_PROVIDER;
+    const provider = EXTRACTION_PROVIDERS.find(p => p.id === requested);
+    if (provider) return provider;
+    // Without a key Gemini cannot run, so fall back to replaying recorded responses.
+    return process.env.API_KEY ? geminiProvider : mockProvider;
+};
+
+/**
+ * Runs `worker` over the items, at most `limit` at a time. Workers get a signal that aborts with
+ * `signal` or on the first failure, so the ones still running stop instead of using up quota.
+ */
+const runWithConcurrency = async <T, R>(
+    items: T[],
+    limit: number,
+    signal: AbortSignal | undefined,
+    worker: (item: T, index: number, signal: AbortSignal) => Promise<R>
+): Promise<R[]> => {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort, { once: true });
+
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+    const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+        while (!controller.signal.aborted && nextIndex < items.length) {
+            const index = nextIndex++;
+            try {
+                results[index] = await worker(items[index], index, controller.signal);
+            } catch (error) {
+                abort();
+                throw error;
+            }
+        }
+    });
+    try {
+        await Promise.all(runners);
+    } finally {
+        signal?.removeEventListener('abort', abort);
+    }
+    throwIfCancelled(signal);
+    return results;
+};
+
+// Providers number pages within their own batch; shift them so they refer to the whole request.
+const offsetSourcePages = (sheet: RawSheetData, offset: number): RawSheetData => {
+    if (!sheet.sourceBoxes || offset === 0) return sheet;
+    return {
+        ...sheet,
+        sourceBoxes: sheet.sourceBoxes.map(row => row.map(box => box ? { ...box, page: box.page + offset } : null)),
+    };
+};
+
+// The first page a sheet has cells on, numbered within the request, or else the first page it was read from.
+const withSourcePage = (sheet: RawSheetData, firstPage: number): RawSheetData => {
+    const pages = (sheet.sourceBoxes ?? []).flat().flatMap(box => box ? [box.page] : []);
+    return { ...sheet, sourcePage: pages.length > 0 ? pages.reduce((min, page) => Math.min(min, page)) : firstPage };
+};
+
+/**
+ * Joins per-batch results in page order. A table that runs over a batch boundary comes back
+ * as the last sheet of one batch and the first sheet of the next with the same headers.
+ */
+const mergeBatchResults = (batchResults: RawSheetData[][]): RawSheetData[] => {
+    const merged: RawSheetData[] = [];
+    batchResults.forEach((sheets, batchIndex) => {
+        sheets.forEach((sheet, sheetIndex) => {
+            const last = merged[merged.length - 1];
+            if (batchIndex > 0 && sheetIndex === 0 && last && headersMatch(last.data[0], sheet.data[0])) {
+                merged[merged.length - 1] = appendSheetRows(last, sheet);
+            } else {
+                merged.push(sheet);
+            }
+        });
+    });
+    return merged;
+};
+
+export const extractDataFromPdfImages = async (
+    images: string[],
+    provider: ExtractionProvider = getExtractionProvider(),
+    { batchSize = DEFAULT_BATCH_SIZE, concurrency = DEFAULT_BATCH_CONCURRENCY, template, signal, onProgress, onRetry }: ExtractionOptions = {}
+): Promise<RawSheetData[]> => {
+    const conform = (sheets: RawSheetData[]) => template ? sheets.map(sheet => conformSheetToTemplate(sheet, template)) : sheets;
+    const extract = (batch: string[], batchSignal = signal) =>
+        withRetry(() => provider.extract({ images: batch, template, signal: batchSignal }), { signal: batchSignal, onRetry });
+
+    if (images.length <= batchSize) {
+        onProgress?.(`AI is analyzing ${images.length} page(s)...`);
+        return conform(await extract(images)).map(sheet => withSourcePage(sheet, 1));
+    }
+
+    const batches: string[][] = [];
+    for (let i = 0; i < images.length; i += batchSize) {
+        batches.push(images.slice(i, i + batchSize));
+    }
+
+    let completed = 0;
+    onProgress?.(`AI is analyzing ${images.length} pages in ${batches.length} batches (0/${batches.length} done)...`);
+    const batchResults = await runWithConcurrency(batches, concurrency, signal, async (batch, index, batchSignal) => {
+        let sheets: RawSheetData[];
+        try {
+            sheets = conform(await extract(batch, batchSignal));
+        } catch (error) {
+            // A batch of cover or summary pages legitimately has no tables; the others may.
+            if (!(error instanceof ExtractionError && error.code === 'no_tables')) throw error;
+            sheets = [];
+        }
+        completed++;
+        onProgress?.(`AI is analyzing ${images.length} pages in ${batches.length} batches (${completed}/${batches.length} done)...`);
+        return sheets.map(sheet => withSourcePage(offsetSourcePages(sheet, index * batchSize), index * batchSize + 1));
+    });
+
+    const merged = mergeBatchResults(batchResults);
+    if (merged.length === 0) {
+        throw new ExtractionError('no_tables', "No tables were detected in the document.");
+    }
+    return merged;
+};
+
+/**
+ * Reads the labeled fields of a form. Forms are short, so all pages go to the provider in one
+ * request; with a template the result is reduced to the template's fields in its order.
+ */
+export const extractFormFields = async (
+    images: string[],
+    provider: ExtractionProvider = getExtractionProvider(),
+    { template, signal, onProgress, onRetry }: Pick<ExtractionOptions, 'template' | 'signal' | 'onProgress' | 'onRetry'> = {}
+): Promise<FormField[]> => {
+    onProgress?.(`AI is reading form fields on ${images.length} page(s)...`);
+    const fields = await withRetry(() => provider.extractFields({ images, template, signal }), { signal, onRetry });
+    return template ? conformFieldsToTemplate(fields, template) : fields;
+};
@@ -0,0 +1,49 @@
+import type { CellRange, FindMatch, FindOptions, FindScope, SheetData } from '../types';
+import { getCoveredCells } from './sheetUtils';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Builds the pattern for a search. Throws a SyntaxError when a regular expression does not compile. */
+export const compileFindPattern = ({ query, matchCase, wholeCell, useRegex }: FindOptions): RegExp => {
+    const source = useRegex ? query : escapeRegExp(query);
+    return new RegExp(wholeCell ? `^(?:${source})$` : source, matchCase ? 'g' : 'gi');
+};
+
+const inRange = (row: number, col: number, { start, end }: CellRange) =>
+    row >= start.row && row <= end.row && col >= start.col && col <= end.col;
+
+/**
+ * Cells whose value contains the pattern, in sheet then row order. Cells hidden under a merge are
+ * skipped; the merge's value lives in its top-left cell.
+ */
+export const findMatches = (sheets: SheetData[], pattern: RegExp, scope: FindScope, sheetIndex: number, selection: CellRange | null): FindMatch[] => {
+    const sheetIndexes = scope === 'all' ? sheets.map((_, i) => i) : [sheetIndex];
+    const matches: FindMatch[] = [];
+    for (const s of sheetIndexes) {
+        const sheet = sheets[s];
+        if (!sheet) continue;
+        const covered = getCoveredCells(sheet.data);
+        sheet.data.forEach((row, r) => row.forEach((cell, c) => {
+            if (covered.has(`${r}:${c}`)) return;
+            if (scope === 'selection' && (!selection || !inRange(r, c, selection))) return;
+            if (cell.value.search(pattern) !== -1) matches.push({ sheetIndex: s, row: r, col: c });
+        }));
+    }
+    return matches;
+};
+
+/**
+ * Replaces every occurrence of the pattern in the matched cells, changing `sheets` in place. A
+ * replaced value is no longer the extractor's reading, so its confidence is dropped. Only regular
+ * expression replacements expand `$1` and the like.
+ */
+export const replaceMatches = (sheets: SheetData[], matches: FindMatch[], pattern: RegExp, replacement: string, useRegex: boolean) => {
+    for (const { sheetIndex, row, col } of matches) {
+        const cell = sheets[sheetIndex]?.data[row]?.[col];
+        if (!cell) continue;
+        const value = useRegex ? cell.value.replace(pattern, replacement) : cell.value.replace(pattern, () => replacement);
+        if (value === cell.value) continue;
+        cell.value = value;
+        delete cell.confidence;
+    }
+};
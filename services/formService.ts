@@ -0,0 +1,77 @@
+import type { CellData, ExtractionTemplate, FormField, FormLayout, RawSheetData, SheetData } from '../types';
+import { normalizeLabel } from './sheetUtils';
+
+/**
+ * Returns exactly the template's fields, in template order, matching extracted labels by
+ * name or synonym. Fields the document does not contain come back with an empty value.
+ */
+export const conformFieldsToTemplate = (fields: FormField[], template: ExtractionTemplate): FormField[] => {
+    const used = new Set<number>();
+    return template.columns.map(col => {
+        const labels = [col.name, ...col.synonyms].map(normalizeLabel).filter(Boolean);
+        const index = fields.findIndex((f, i) => !used.has(i) && labels.includes(normalizeLabel(f.label)));
+        if (index < 0) return { label: col.name, value: '' };
+        used.add(index);
+        return { ...fields[index], label: col.name };
+    });
+};
+
+/** Lays out one document's fields either as Field/Value rows or as a single row under label headers. */
+export const buildFormSheet = (fields: FormField[], layout: FormLayout, sheetName = 'Fields'): RawSheetData => {
+    if (layout === 'one-row') {
+        return {
+            sheetName,
+            data: [fields.map(f => f.label), fields.map(f => f.value)],
+            confidence: [fields.map(() => null), fields.map(f => f.confidence ?? null)],
+        };
+    }
+    return {
+        sheetName,
+        data: [['Field', 'Value'], ...fields.map(f => [f.label, f.value])],
+        confidence: [[null, null], ...fields.map(f => [null, f.confidence ?? null])],
+    };
+};
+
+/**
+ * Reads fields back from a sheet made by buildFormSheet, picking up edits made in the viewer.
+ * Rows without a label are skipped; a value's confidence survives only if it was not edited.
+ */
+export const readFormSheet = (sheet: SheetData, layout: FormLayout): FormField[] => {
+    const toField = (label: string, cell: CellData | undefined): FormField => {
+        const field: FormField = { label, value: cell?.value ?? '' };
+        if (cell?.confidence !== undefined) field.confidence = cell.confidence;
+        return field;
+    };
+    if (layout === 'one-row') {
+        const headerRowCount = sheet.headerRowCount ?? 1;
+        const labels = sheet.data[headerRowCount - 1] ?? [];
+        const values = sheet.data[headerRowCount] ?? [];
+        return labels.flatMap((label, c) => label.value.trim() ? [toField(label.value, values[c])] : []);
+    }
+    return sheet.data.slice(1).flatMap(row => row[0]?.value.trim() ? [toField(row[0].value, row[1])] : []);
+};
+
+/**
+ * Combines many documents into one sheet with a row per document. Columns are the union
+ * of all labels in order of first appearance, preceded by the source file name.
+ */
+export const buildConsolidatedFormSheet = (documents: { fileName: string; fields: FormField[] }[]): RawSheetData => {
+    const labels: string[] = [];
+    const seen = new Set<string>();
+    for (const { fields } of documents) {
+        for (const field of fields) {
+            const key = normalizeLabel(field.label);
+            if (!seen.has(key)) {
+                seen.add(key);
+                labels.push(field.label);
+            }
+        }
+    }
+
+    const rows = documents.map(({ fileName, fields }) => {
+        const byLabel = new Map(fields.map(f => [normalizeLabel(f.label), f]));
+        return [fileName, ...labels.map(label => byLabel.get(normalizeLabel(label))?.value ?? '')];
+    });
+
+    return { sheetName: 'Consolidated Forms', data: [['Source File', ...labels], ...rows] };
+};
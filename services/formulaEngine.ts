@@ -0,0 +1,440 @@
+import type { SheetData } from '../types';
+import { toWorkbookValue, toExcelSerialDate, getDefaultLocale } from './valueParser';
+import { getColumnLetter } from './sheetUtils';
+
+export type FormulaErrorCode = '#DIV/0!' | '#VALUE!' | '#REF!' | '#NAME?' | '#ERROR!';
+
+/** What a formula cell evaluates to: a number, or the Excel error it would show; #ERROR! when this engine cannot work it out. */
+export type FormulaResult = number | FormulaErrorCode;
+
+class FormulaError extends Error {
+    code: FormulaErrorCode;
+
+    constructor(code: FormulaErrorCode) {
+        super(code);
+        this.name = 'FormulaError';
+        this.code = code;
+    }
+}
+
+// A referenced cell's value: a number, a boolean, text, or null when blank.
+type CellValue = number | boolean | string | null;
+
+// Operands are plain numbers or the values of a reference; a single-cell reference can stand in for a number.
+type Operand = number | { values: CellValue[]; single: boolean };
+
+type Aggregate = (numbers: number[]) => number;
+
+const FUNCTIONS: Record<string, Aggregate> = {
+    SUM: numbers => numbers.reduce((sum, n) => sum + n, 0),
+    AVERAGE: numbers => {
+        if (numbers.length === 0) throw new FormulaError('#DIV/0!');
+        return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    },
+    MIN: numbers => numbers.length === 0 ? 0 : Math.min(...numbers),
+    MAX: numbers => numbers.length === 0 ? 0 : Math.max(...numbers),
+    COUNT: numbers => numbers.length,
+};
+
+type CellAddress = { row: number; col: number };
+
+// A reference as written, with the $ that pins its row or column.
+type CellReference = CellAddress & { absoluteRow: boolean; absoluteCol: boolean };
+
+type Token = { start: number; end: number } & (
+    | { type: 'number'; value: number }
+    | { type: 'function'; name: string }
+    | { type: 'reference'; from: CellReference; to?: CellReference }
+    | { type: 'ref-error' }
+    | { type: 'operator'; symbol: string }
+);
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '^';
+
+type Node =
+    | { type: 'number'; value: number }
+    | { type: 'reference'; from: CellAddress; to: CellAddress; single: boolean }
+    | { type: 'ref-error' }
+    | { type: 'call'; aggregate: Aggregate; args: Node[] }
+    | { type: 'unary'; negate: boolean; operand: Node }
+    | { type: 'percent'; operand: Node }
+    | { type: 'binary'; operator: BinaryOperator; left: Node; right: Node };
+
+// Excel's largest sheet; anything past it reads as a name rather than a cell.
+const MAX_ROWS = 1048576;
+const MAX_COLUMNS = 16384;
+
+// How many formulas deep one cell's references may chain; deeper chains would overflow the stack.
+const MAX_DEPTH = 256;
+
+const REF_PATTERN = /^(\$?)([A-Z]{1,3})(\$?)([1-9]\d*)(?![\w.])/i;
+const NUMBER_PATTERN = /^(\d+\.?\d*|\.\d+)(E[+-]?\d+)?/i;
+const FUNCTION_PATTERN = /^[A-Z][A-Z0-9.]*(?=\()/i;
+const REF_ERROR_PATTERN = /^#REF!/i;
+const OPERATORS = '+-*/^%(),';
+
+const columnIndex = (letters: string): number =>
+    letters.toUpperCase().split('').reduce((n, letter) => n * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+export const isFormula = (value: string): boolean => value.length > 1 && value.startsWith('=');
+
+const readReference = (text: string): { reference: CellReference; length: number } | null => {
+    const match = text.match(REF_PATTERN);
+    if (!match) return null;
+    const reference = {
+        row: parseInt(match[4], 10) - 1,
+        col: columnIndex(match[2]),
+        absoluteRow: match[3] === '$',
+        absoluteCol: match[1] === '$',
+    };
+    if (reference.row >= MAX_ROWS || reference.col >= MAX_COLUMNS) return null;
+    return { reference, length: match[0].length };
+};
+
+/**
+ * Splits a formula, without its "=", into tokens. Text, names and sheet references are not part
+ * of the supported syntax, so they fail here: words as #NAME?, anything else as #ERROR!.
+ */
+const tokenize = (formula: string): Token[] => {
+    const tokens: Token[] = [];
+    let pos = 0;
+    while (pos < formula.length) {
+        const start = pos;
+        const rest = formula.slice(pos);
+        if (rest[0] === ' ') {
+            pos++;
+            continue;
+        }
+        const name = rest.match(FUNCTION_PATTERN);
+        const from = name ? null : readReference(rest);
+        const number = rest.match(NUMBER_PATTERN);
+        if (name) {
+            pos += name[0].length;
+            tokens.push({ type: 'function', name: name[0].toUpperCase(), start, end: pos });
+        } else if (from) {
+            pos += from.length;
+            let to: CellReference | undefined;
+            if (formula[pos] === ':') {
+                const end = readReference(formula.slice(pos + 1));
+                if (!end) throw new FormulaError('#ERROR!');
+                pos += 1 + end.length;
+                to = end.reference;
+            }
+            tokens.push({ type: 'reference', from: from.reference, to, start, end: pos });
+        } else if (REF_ERROR_PATTERN.test(rest)) {
+            pos += '#REF!'.length;
+            tokens.push({ type: 'ref-error', start, end: pos });
+        } else if (number) {
+            pos += number[0].length;
+            tokens.push({ type: 'number', value: parseFloat(number[0]), start, end: pos });
+        } else if (OPERATORS.includes(rest[0])) {
+            pos++;
+            tokens.push({ type: 'operator', symbol: rest[0], start, end: pos });
+        } else {
+            throw new FormulaError(/^[A-Z]/i.test(rest) ? '#NAME?' : '#ERROR!');
+        }
+    }
+    return tokens;
+};
+
+/**
+ * A recursive-descent parser over Excel's syntax: numbers, A1-style references and ranges,
+ * + - * / ^, unary minus, trailing %, parentheses, and the functions in FUNCTIONS. An unknown
+ * function is #NAME? here rather than when evaluated, so nothing calling one is ever exported.
+ */
+const parse = (tokens: Token[]): Node => {
+    let index = 0;
+
+    const peek = (): string | undefined => {
+        const token = tokens[index];
+        return token?.type === 'operator' ? token.symbol : undefined;
+    };
+    const expect = (symbol: string) => {
+        if (peek() !== symbol) throw new FormulaError('#ERROR!');
+        index++;
+    };
+
+    const parsePrimary = (): Node => {
+        const token = tokens[index++];
+        switch (token?.type) {
+            case 'number':
+                return { type: 'number', value: token.value };
+            case 'reference': {
+                const to = token.to ?? token.from;
+                return { type: 'reference', from: token.from, to, single: to.row === token.from.row && to.col === token.from.col };
+            }
+            case 'ref-error':
+                return { type: 'ref-error' };
+            case 'function': {
+                const aggregate = FUNCTIONS[token.name];
+                if (!aggregate) throw new FormulaError('#NAME?');
+                expect('(');
+                const args: Node[] = [];
+                while (peek() !== ')') {
+                    args.push(parseExpression());
+                    if (peek() !== ',') break;
+                    index++;
+                }
+                expect(')');
+                return { type: 'call', aggregate, args };
+            }
+            case 'operator':
+                if (token.symbol === '(') {
+                    const inner = parseExpression();
+                    expect(')');
+                    return inner;
+                }
+        }
+        throw new FormulaError('#ERROR!');
+    };
+
+    const parsePercent = (): Node => {
+        let operand = parsePrimary();
+        while (peek() === '%') {
+            index++;
+            operand = { type: 'percent', operand };
+        }
+        return operand;
+    };
+
+    // As in Excel, negation binds tighter than ^, so -2^2 is 4.
+    const parseUnary = (): Node => {
+        const symbol = peek();
+        if (symbol === '-' || symbol === '+') {
+            index++;
+            return { type: 'unary', negate: symbol === '-', operand: parseUnary() };
+        }
+        return parsePercent();
+    };
+
+    const parseBinary = (operators: BinaryOperator[], parseOperand: () => Node) => (): Node => {
+        let left = parseOperand();
+        for (let symbol = peek(); operators.includes(symbol as BinaryOperator); symbol = peek()) {
+            index++;
+            left = { type: 'binary', operator: symbol as BinaryOperator, left, right: parseOperand() };
+        }
+        return left;
+    };
+
+    const parsePower = parseBinary(['^'], parseUnary);
+    const parseProduct = parseBinary(['*', '/'], parsePower);
+    const parseExpression: () => Node = parseBinary(['+', '-'], parseProduct);
+
+    const root = parseExpression();
+    if (index < tokens.length) throw new FormulaError('#ERROR!');
+    return root;
+};
+
+const toNumber = (operand: Operand): number => {
+    if (typeof operand === 'number') return operand;
+    if (!operand.single) throw new FormulaError('#VALUE!');
+    const value = operand.values[0];
+    if (value === null) return 0;
+    if (typeof value === 'number') return value;
+    if (typeof value === 'boolean') return value ? 1 : 0;
+    // Excel reads text that is a plain number as that number in arithmetic, though functions still skip it.
+    if (value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    throw new FormulaError('#VALUE!');
+};
+
+// What an expression reads: the extent of the sheet and the value at each of its positions.
+type CellSource = { rowCount: number; columnCount: number; valueAt: (row: number, col: number) => CellValue };
+
+/** In arithmetic blank cells count as zero and booleans as one or zero; functions skip both, along with text. */
+const evaluateNode = (node: Node, source: CellSource): Operand => {
+    switch (node.type) {
+        case 'number':
+            return node.value;
+        case 'ref-error':
+            throw new FormulaError('#REF!');
+        case 'reference': {
+            // Cells past the sheet are blank, so a range is only read as far as the sheet goes.
+            const { from, to } = node;
+            const lastRow = Math.min(Math.max(from.row, to.row), source.rowCount - 1);
+            const lastCol = Math.min(Math.max(from.col, to.col), source.columnCount - 1);
+            const values: CellValue[] = [];
+            for (let r = Math.min(from.row, to.row); r <= lastRow; r++) {
+                for (let c = Math.min(from.col, to.col); c <= lastCol; c++) values.push(source.valueAt(r, c));
+            }
+            if (node.single && values.length === 0) values.push(null);
+            return { values, single: node.single };
+        }
+        case 'call': {
+            const numbers: number[] = [];
+            for (const arg of node.args) {
+                const value = evaluateNode(arg, source);
+                if (typeof value === 'number') numbers.push(value);
+                else value.values.forEach(v => { if (typeof v === 'number') numbers.push(v); });
+            }
+            return node.aggregate(numbers);
+        }
+        case 'unary': {
+            const operand = toNumber(evaluateNode(node.operand, source));
+            return node.negate ? -operand : operand;
+        }
+        case 'percent':
+            return toNumber(evaluateNode(node.operand, source)) / 100;
+        case 'binary': {
+            const left = toNumber(evaluateNode(node.left, source));
+            const right = toNumber(evaluateNode(node.right, source));
+            switch (node.operator) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/':
+                    if (right === 0) throw new FormulaError('#DIV/0!');
+                    return left / right;
+                case '^': return Math.pow(left, right);
+            }
+        }
+    }
+};
+
+const evaluateExpression = (formula: Node, source: CellSource): number => {
+    const result = toNumber(evaluateNode(formula, source));
+    if (!isFinite(result)) throw new FormulaError('#VALUE!');
+    return result;
+};
+
+// Null for values that are not formulas, including text such as "=== Notes ===" that only starts with "=".
+const parseFormula = (value: string): Node | null => {
+    if (!isFormula(value)) return null;
+    try {
+        return parse(tokenize(value.slice(1)));
+    } catch (error) {
+        if (error instanceof FormulaError) return null;
+        throw error;
+    }
+};
+
+/**
+ * The formula as Excel stores it, without its "=", or null when this engine cannot parse it.
+ * Cell values come from untrusted documents, so only formulas made of the supported syntax
+ * may be written as live formulas; calls to anything else, such as HYPERLINK, stay text.
+ */
+export const toExcelFormula = (value: string): string | null => {
+    if (parseFormula(value) === null) return null;
+    // Only references, function names and exponents hold letters, and Excel writes them all upper case.
+    return value.slice(1).toUpperCase();
+};
+
+/**
+ * Evaluates every formula cell of a sheet, keyed by "row:col". References are A1-style positions
+ * in `data`, header rows included. A formula that depends on itself evaluates to #REF!, as in
+ * Google Sheets; one that refers to an error cell takes on that error. Cells that start with "="
+ * but do not parse get no result and are read as text, so they keep their value in every output.
+ * Other cells are read as the Excel export writes them, so results match what Excel calculates.
+ */
+export const evaluateFormulas = (sheet: SheetData): Map<string, FormulaResult> => {
+    const locale = sheet.locale || getDefaultLocale();
+    const results = new Map<string, FormulaResult>();
+    const evaluating = new Set<string>();
+    const formulas = new Map<string, Node>();
+    sheet.data.forEach((row, r) => row.forEach((cell, c) => {
+        const formula = parseFormula(cell.value);
+        if (formula) formulas.set(`${r}:${c}`, formula);
+    }));
+
+    const valueAt = (row: number, col: number): CellValue => {
+        if (formulas.has(`${row}:${col}`)) {
+            const result = evaluateCell(row, col);
+            if (typeof result !== 'number') throw new FormulaError(result);
+            return result;
+        }
+        const value = toWorkbookValue(sheet, row, col, locale);
+        if (value instanceof Date) return toExcelSerialDate(value);
+        if (typeof value === 'string' && value.trim() === '') return null;
+        return value;
+    };
+    const source: CellSource = { rowCount: sheet.data.length, columnCount: Math.max(0, ...sheet.data.map(row => row.length)), valueAt };
+
+    const evaluateCell = (row: number, col: number): FormulaResult => {
+        const key = `${row}:${col}`;
+        const known = results.get(key);
+        if (known !== undefined) return known;
+        if (evaluating.has(key)) throw new FormulaError('#REF!');
+        if (evaluating.size >= MAX_DEPTH) throw new FormulaError('#ERROR!');
+        evaluating.add(key);
+        let result: FormulaResult;
+        try {
+            result = evaluateExpression(formulas.get(key)!, source);
+        } catch (error) {
+            // One cell the engine trips over must not take down the rest of the sheet.
+            if (!(error instanceof FormulaError)) console.error(`Failed to evaluate ${getColumnLetter(col)}${row + 1}:`, error);
+            result = error instanceof FormulaError ? error.code : '#ERROR!';
+        }
+        evaluating.delete(key);
+        results.set(key, result);
+        return result;
+    };
+
+    sheet.data.forEach((row, r) => row.forEach((_, c) => {
+        if (formulas.has(`${r}:${c}`)) evaluateCell(r, c);
+    }));
+    return results;
+};
+
+/** Where a span of rows or columns, given by its first and last index, is after an edit, or null once it is gone. */
+export type SpanMap = (first: number, last: number) => [number, number] | null;
+
+const formatReference = ({ row, col, absoluteRow, absoluteCol }: CellReference): string =>
+    `${absoluteCol ? '$' : ''}${getColumnLetter(col)}${absoluteRow ? '$' : ''}${row + 1}`;
+
+/**
+ * Rewrites the references of a formula after rows or columns were added, removed or moved,
+ * keeping each $ as written. A reference whose cells are all gone becomes #REF!, as in Excel.
+ * A formula that does not parse is left as it is.
+ */
+export const shiftReferences = (value: string, rows: SpanMap, columns: SpanMap): string => {
+    if (!isFormula(value)) return value;
+    let tokens: Token[];
+    try {
+        tokens = tokenize(value.slice(1));
+    } catch (error) {
+        if (error instanceof FormulaError) return value;
+        throw error;
+    }
+    let formula = value.slice(1);
+    // From the end, so the offsets of earlier tokens still hold.
+    for (const token of tokens.reverse()) {
+        if (token.type !== 'reference') continue;
+        const to = token.to ?? token.from;
+        const rowSpan = rows(Math.min(token.from.row, to.row), Math.max(token.from.row, to.row));
+        const colSpan = columns(Math.min(token.from.col, to.col), Math.max(token.from.col, to.col));
+        let text = '#REF!';
+        if (rowSpan && colSpan) {
+            text = formatReference({ ...token.from, row: rowSpan[0], col: colSpan[0] });
+            if (token.to) text += `:${formatReference({ ...token.to, row: rowSpan[1], col: colSpan[1] })}`;
+        }
+        formula = formula.slice(0, token.start) + text + formula.slice(token.end);
+    }
+    return `=${formula}`;
+};
+
+/** Shows a result in the sheet's locale without grouping, so it parses back as the same number. */
+export const formatFormulaResult = (result: FormulaResult, locale: string): string =>
+    typeof result === 'number'
+        ? new Intl.NumberFormat(locale, { maximumFractionDigits: 10, useGrouping: false }).format(result)
+        : result;
+
+export const hasFormulas = (sheet: SheetData): boolean => sheet.data.some(row => row.some(cell => isFormula(cell.value)));
+
+/**
+ * A copy of the sheet with each formula replaced by its result, for outputs that cannot hold
+ * formulas and for layouts that move rows, which would leave references pointing elsewhere.
+ */
+export const resolveFormulas = (sheet: SheetData): SheetData =>
+    hasFormulas(sheet) ? withFormulaResults(sheet, evaluateFormulas(sheet)) : sheet;
+
+/** As resolveFormulas, with results already worked out by evaluateFormulas for this sheet. */
+export const withFormulaResults = (sheet: SheetData, results: Map<string, FormulaResult>): SheetData => {
+    if (results.size === 0) return sheet;
+    const locale = sheet.locale || getDefaultLocale();
+    return {
+        ...sheet,
+        data: sheet.data.map((row, r) => row.map((cell, c) => {
+            const result = results.get(`${r}:${c}`);
+            return result === undefined ? cell : { ...cell, value: formatFormulaResult(result, locale) };
+        })),
+    };
+};
@@ -1,12 +1,48 @@
 
-
 import { GoogleGenAI, Type } from "@google/genai";
+import type { ExtractionProvider, ExtractionRequest, ExtractionTemplate, FormField, RawSheetData } from '../types';
+import { parseExtractionResponse, parseFormResponse, fingerprintImages, saveRecordedExtraction } from './extractionResponse';
+import { buildTemplateInstructions } from './templateService';
+import { ExtractionError, classifyError } from './extractionErrors';
+
+let ai: GoogleGenAI | null = null;
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable is not set.");
-}
+const getClient = (): GoogleGenAI => {
+    if (!process.env.API_KEY) {
+        throw new ExtractionError('configuration', "API_KEY environment variable is not set.");
+    }
+    if (!ai) {
+        ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    }
+    return ai;
+};
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const cellSchema = {
+    type: Type.OBJECT,
+    properties: {
+        value: {
+            type: Type.STRING,
+            description: "A single cell value, represented as a string."
+        },
+        confidence: {
+            type: Type.NUMBER,
+            description: "How certain you are that the value was read correctly, from 0 (guess) to 1 (certain)."
+        },
+        box: {
+            type: Type.OBJECT,
+            description: "Where the cell appears in the source, as fractions of the page width and height measured from the top-left corner.",
+            properties: {
+                page: { type: Type.INTEGER, description: "1-based index of the page image the cell was read from." },
+                x: { type: Type.NUMBER },
+                y: { type: Type.NUMBER },
+                width: { type: Type.NUMBER },
+                height: { type: Type.NUMBER },
+            },
+            required: ["page", "x", "y", "width", "height"],
+        }
+    },
+    required: ["value", "confidence"],
+};
 
 const responseSchema = {
     type: Type.OBJECT,
@@ -26,10 +62,25 @@ const responseSchema = {
                         description: "The tabular data, represented as an array of arrays. The first inner array MUST be the headers. Subsequent arrays are data rows.",
                         items: {
                             type: Type.ARRAY,
-                            items: {
-                                type: Type.STRING,
-                                description: "A single cell value, represented as a string."
-                            }
+                            items: cellSchema
+                        }
+                    },
+                    headerRowCount: {
+                        type: Type.INTEGER,
+                        description: "How many of the first rows in 'data' are header rows. Use more than 1 for grouped headers, e.g. a 'Q1' row above 'Jan', 'Feb', 'Mar'."
+                    },
+                    merges: {
+                        type: Type.ARRAY,
+                        description: "Cells that span several rows or columns in the document, e.g. a group header. Positions are 0-based indexes into 'data'.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                row: { type: Type.INTEGER },
+                                col: { type: Type.INTEGER },
+                                rowSpan: { type: Type.INTEGER },
+                                colSpan: { type: Type.INTEGER },
+                            },
+                            required: ["row", "col", "rowSpan", "colSpan"],
                         }
                     }
                 },
@@ -40,73 +91,176 @@ const responseSchema = {
     required: ["sheets"],
 };
 
-export const extractDataFromPdfImages = async (images: string[]): Promise<{sheetName: string; data: string[][]}[]> => {
-    const imageParts = images.map(imgBase64 => ({
-        inlineData: {
-            mimeType: 'image/jpeg',
-            data: imgBase64,
+const formResponseSchema = {
+    type: Type.OBJECT,
+    properties: {
+        fields: {
+            type: Type.ARRAY,
+            description: "The labeled fields of the form in reading order.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    label: { type: Type.STRING, description: "The field label as printed, without a trailing colon." },
+                    value: { type: Type.STRING, description: "The value filled in for the field, or an empty string if blank." },
+                    confidence: {
+                        type: Type.NUMBER,
+                        description: "How certain you are that the value was read correctly, from 0 (guess) to 1 (certain)."
+                    },
+                },
+                required: ["label", "value", "confidence"],
+            }
+        }
+    },
+    required: ["fields"],
+};
+
+const templateColumnKey = (index: number) => `column_${index + 1}`;
+
+// With a template, each row is an object with one fixed property per target column, so the
+// model cannot invent, rename or reorder columns.
+const buildTemplateSchema = (template: ExtractionTemplate) => ({
+    type: Type.OBJECT,
+    properties: {
+        sheets: {
+            type: Type.ARRAY,
+            description: "An array of tables found in the document that match the requested layout.",
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    sheetName: {
+                        type: Type.STRING,
+                        description: "A descriptive name for the sheet, e.g., 'Invoice 1042 Lines'."
+                    },
+                    rows: {
+                        type: Type.ARRAY,
+                        description: "The data rows of the table. Do not include the header row.",
+                        items: {
+                            type: Type.OBJECT,
+                            properties: Object.fromEntries(template.columns.map((col, i) => [
+                                templateColumnKey(i),
+                                { ...cellSchema, description: `${col.name} (${col.type})` },
+                            ])),
+                            propertyOrdering: template.columns.map((_, i) => templateColumnKey(i)),
+                        }
+                    }
+                },
+                required: ["sheetName", "rows"],
+            }
+        }
+    },
+    required: ["sheets"],
+});
+
+// Rewrites a template-shaped response into the standard sheets/data shape.
+const templateResponseToSheets = (jsonString: string | undefined, template: ExtractionTemplate): string | undefined => {
+    if (!jsonString) return jsonString;
+    let result;
+    try {
+        result = JSON.parse(jsonString);
+    } catch {
+        return jsonString;
+    }
+    if (!Array.isArray(result?.sheets)) return jsonString;
+    return JSON.stringify({
+        sheets: result.sheets.map((sheet: { sheetName: string; rows?: Record<string, unknown>[] }) => ({
+            sheetName: sheet.sheetName,
+            data: [
+                template.columns.map(col => col.name),
+                ...(sheet.rows || []).map(row => template.columns.map((_, i) => row[templateColumnKey(i)] ?? '')),
+            ],
+        })),
+    });
+};
+
+const toImageParts = (images: string[]) => images.map(imgBase64 => ({
+    inlineData: {
+        mimeType: 'image/jpeg',
+        data: imgBase64,
+    },
+}));
+
+const generateJson = async (parts: object[], schema: object, signal?: AbortSignal): Promise<string | undefined> => {
+    const response = await getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: { parts },
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: schema,
+            temperature: 0.1,
+            abortSignal: signal,
         },
-    }));
+    });
+
+    if (response.candidates?.[0]?.finishReason === 'SAFETY') {
+        throw new ExtractionError('safety_block', "The response was blocked for safety reasons. The document may contain sensitive content.");
+    }
+    return response.text;
+};
 
+const extractWithGemini = async ({ images, template, signal }: ExtractionRequest): Promise<RawSheetData[]> => {
     const textPart = {
         text: `Analyze the following document pages. Extract all tabular data you can find.
         If a single table spans multiple pages, consolidate it into one sheet.
         Return the result as a JSON object that strictly follows the provided schema.
         Ensure the first inner array in the 'data' field for each sheet contains the column headers.
         If there are no clear headers, infer them from the data content (e.g., 'Column 1', 'Product_ID', 'Date').
-        Do not return empty sheets or sheets without data rows.`
+        Keep every row the same length. When a cell spans several columns or rows, put its value in the top-left position,
+        leave the covered positions as empty strings, and list the span in 'merges'. Report grouped headers with 'headerRowCount'.
+        For every cell, give a confidence between 0 and 1 reflecting how legible and unambiguous the value was,
+        and where possible the bounding box of the cell on its page image.
+        Do not return empty sheets or sheets without data rows.${template ? `\n\n${buildTemplateInstructions(template)}` : ''}`
     };
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [textPart, ...imageParts] },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: responseSchema,
-                temperature: 0.1,
-            },
-        });
+        const text = await generateJson([textPart, ...toImageParts(images)], template ? buildTemplateSchema(template) : responseSchema, signal);
+        const responseText = template ? templateResponseToSheets(text, template) : text;
+        const sheets = parseExtractionResponse(responseText);
 
-        if (response.candidates?.[0]?.finishReason === 'SAFETY') {
-            throw new Error("The response was blocked for safety reasons. The document may contain sensitive content.");
+        if (process.env.RECORD_EXTRACTIONS === 'true') {
+            saveRecordedExtraction({ fingerprint: fingerprintImages(images), responseText: responseText! });
         }
 
-        const jsonString = response.text;
-        if (!jsonString) {
-             throw new Error("The AI returned an empty response. No data could be extracted.");
-        }
+        return sheets;
 
-        let result;
-        try {
-            result = JSON.parse(jsonString);
-        } catch (parseError) {
-            throw new Error("The AI returned a malformed data structure that could not be read.");
-        }
-        
-        if (!result.sheets || !Array.isArray(result.sheets)) {
-            throw new Error("The AI response was missing the expected 'sheets' data structure.");
-        }
-        
-        if (result.sheets.length === 0) {
-            throw new Error("No tables were detected in the document.");
-        }
-        
-        const validSheets = result.sheets.filter((sheet: {data?: any[][]}) => 
-            sheet.data && sheet.data.length > 1 && sheet.data[0] && sheet.data[0].length > 0
-        );
+    } catch (error) {
+        console.error("Error extracting data from PDF:", error);
+        throw classifyError(error);
+    }
+};
 
-        if (validSheets.length === 0) {
-            throw new Error("The detected tables appear to be empty or contain only headers.");
+const extractFieldsWithGemini = async ({ images, template, signal }: ExtractionRequest): Promise<FormField[]> => {
+    const expected = template
+        ? `\n\nThe form is expected to contain these fields: ${template.columns.map(col => col.synonyms.length > 0 ? `${col.name} (also labeled ${col.synonyms.join(', ')})` : col.name).join('; ')}. Use these names as labels where they apply.${template.hints ? `\n${template.hints}` : ''}`
+        : '';
+
+    const textPart = {
+        text: `Analyze the following document pages. They show a form, certificate or similar document made of labeled fields rather than tables.
+        Extract every label and the value written or printed next to it, in reading order.
+        Keep labels as printed, without trailing colons. Use an empty string for fields that were left blank.
+        Check boxes should be reported as 'Yes' or 'No'.
+        For every field, give a confidence between 0 and 1 reflecting how legible and unambiguous the value was.
+        Return the result as a JSON object that strictly follows the provided schema.${expected}`
+    };
+
+    try {
+        const responseText = await generateJson([textPart, ...toImageParts(images)], formResponseSchema, signal);
+        const fields = parseFormResponse(responseText);
+
+        if (process.env.RECORD_EXTRACTIONS === 'true') {
+            saveRecordedExtraction({ fingerprint: fingerprintImages(images), responseText: responseText!, kind: 'fields' });
         }
 
-        return validSheets;
+        return fields;
 
     } catch (error) {
-        console.error("Error extracting data from PDF:", error);
-        if (error instanceof Error) {
-            throw error;
-        }
-        throw new Error("An unknown error occurred during data extraction.");
+        console.error("Error extracting form fields from PDF:", error);
+        throw classifyError(error);
     }
 };
+
+export const geminiProvider: ExtractionProvider = {
+    id: 'gemini',
+    name: 'Gemini 2.5 Flash',
+    extract: extractWithGemini,
+    extractFields: extractFieldsWithGemini,
+};
@@ -0,0 +1,84 @@
+import { ExtractionError } from './extractionErrors';
+
+export const IMAGE_ACCEPT = 'image/png, image/jpeg, image/tiff, .png, .jpg, .jpeg, .tif, .tiff';
+
+export const isImageFile = (file: File) => /^image\/(png|jpeg|tiff)$/.test(file.type) || /\.(png|jpe?g|tiff?)$/i.test(file.name);
+
+const isTiffFile = (file: File) => file.type === 'image/tiff' || /\.tiff?$/i.test(file.name);
+
+/** A scanned image opened like a PDF: a page count and a way to render any page to a canvas. */
+export interface ImageDocument {
+    pageCount: number;
+    renderPage: (pageNum: number, maxDimension?: number) => Promise<HTMLCanvasElement>;
+}
+
+const createCanvas = (width: number, height: number, maxDimension?: number) => {
+    const scale = maxDimension ? Math.min(1, maxDimension / Math.max(width, height)) : 1;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Could not get canvas context");
+    return { canvas, context };
+};
+
+// Pages are sent as JPEG, which has no alpha, so transparent areas would otherwise turn black.
+const drawOnWhite = (source: CanvasImageSource, width: number, height: number, maxDimension?: number) => {
+    const { canvas, context } = createCanvas(width, height, maxDimension);
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
+
+// Our own errors already say what went wrong; anything else means the file could not be decoded.
+const toDecodeError = (error: unknown): ExtractionError => {
+    if (error instanceof ExtractionError) return error;
+    console.error("Error decoding image:", error);
+    return new ExtractionError('invalid_document', "The image could not be decoded. The file might be corrupted or in an unsupported format.");
+};
+
+const openTiff = async (file: File): Promise<ImageDocument> => {
+    const buffer = await file.arrayBuffer();
+    // @ts-ignore
+    const pages = UTIF.decode(buffer).filter((ifd: { t256?: number[] }) => ifd.t256);
+    if (pages.length === 0) throw new ExtractionError('invalid_document', "The TIFF file contains no pages.");
+
+    return {
+        pageCount: pages.length,
+        // Pages are decoded only when rendered, so a damaged page fails here rather than on opening.
+        renderPage: async (pageNum, maxDimension) => {
+            const ifd = pages[pageNum - 1];
+            let frame: ReturnType<typeof createCanvas>;
+            try {
+                // @ts-ignore
+                UTIF.decodeImage(buffer, ifd);
+                // @ts-ignore
+                const rgba: Uint8Array = UTIF.toRGBA8(ifd);
+                frame = createCanvas(ifd.width, ifd.height);
+                frame.context.putImageData(new ImageData(new Uint8ClampedArray(rgba.buffer, rgba.byteOffset, rgba.byteLength), ifd.width, ifd.height), 0, 0);
+            } catch (error) {
+                throw toDecodeError(error);
+            }
+            // putImageData copies alpha as it is, so the frame is drawn over white like any other image.
+            return drawOnWhite(frame.canvas, ifd.width, ifd.height, maxDimension);
+        },
+    };
+};
+
+const openBitmap = async (file: File): Promise<ImageDocument> => {
+    const bitmap = await createImageBitmap(file);
+    return {
+        pageCount: 1,
+        renderPage: async (_pageNum, maxDimension) => drawOnWhite(bitmap, bitmap.width, bitmap.height, maxDimension),
+    };
+};
+
+/** Opens a PNG, JPEG or (multi-page) TIFF scan. Pages are numbered from 1, as in PDFs. */
+export const openImageDocument = async (file: File): Promise<ImageDocument> => {
+    try {
+        return isTiffFile(file) ? await openTiff(file) : await openBitmap(file);
+    } catch (error) {
+        throw toDecodeError(error);
+    }
+};
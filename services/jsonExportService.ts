@@ -0,0 +1,88 @@
+import type { ColumnType, SheetData } from '../types';
+import { parseTypedValue, getDefaultLocale } from './valueParser';
+
+type JsonValue = string | number | boolean | null;
+type JsonRecord = Record<string, JsonValue>;
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+const COLUMN_SCHEMAS: Record<ColumnType, { type: string; format?: string; description?: string }> = {
+    text: { type: 'string' },
+    integer: { type: 'integer' },
+    decimal: { type: 'number' },
+    currency: { type: 'number', description: 'Amount without the currency symbol.' },
+    percent: { type: 'number', description: 'Fraction, e.g. 0.25 for 25%.' },
+    date: { type: 'string', format: 'date' },
+    boolean: { type: 'boolean' },
+};
+
+/**
+ * Returns one unique property name per column, taken from the last header row so grouped
+ * headers resolve to their leaf names. Blank headers become `column_N`.
+ */
+export const getRecordKeys = (sheet: SheetData): string[] => {
+    const headerRowCount = sheet.headerRowCount ?? 1;
+    const header = sheet.data[headerRowCount - 1] ?? [];
+    const columnCount = Math.max(0, ...sheet.data.map(row => row.length));
+    const used = new Set<string>();
+    return Array.from({ length: columnCount }, (_, c) => {
+        const base = header[c]?.value.trim() || `column_${c + 1}`;
+        let key = base;
+        for (let n = 2; used.has(key); n++) key = `${base}_${n}`;
+        used.add(key);
+        return key;
+    });
+};
+
+const toJsonValue = (raw: string, type: ColumnType, locale: string): JsonValue => {
+    if (raw.trim() === '') return null;
+    if (type === 'text') return raw;
+    const typed = parseTypedValue(raw, type, locale);
+    if (typed === null) return raw;
+    return typed instanceof Date ? typed.toISOString().slice(0, 10) : typed;
+};
+
+/** Converts the data rows of a sheet into objects keyed by header, with values in their column's type. */
+export const sheetToRecords = (sheet: SheetData): JsonRecord[] => {
+    const keys = getRecordKeys(sheet);
+    const locale = sheet.locale ?? getDefaultLocale();
+    return sheet.data.slice(sheet.headerRowCount ?? 1).map(row =>
+        Object.fromEntries(keys.map((key, c) => [key, toJsonValue(row[c]?.value ?? '', sheet.columnTypes?.[c] ?? 'text', locale)]))
+    );
+};
+
+/**
+ * Describes the records of a sheet as a JSON Schema. Values that could not be read as their
+ * column's type are kept as text, so every property also allows a string, and blanks are null.
+ */
+export const buildSheetJsonSchema = (sheet: SheetData) => {
+    const keys = getRecordKeys(sheet);
+    return {
+        $schema: JSON_SCHEMA_DIALECT,
+        title: sheet.sheetName,
+        type: 'array',
+        items: {
+            type: 'object',
+            properties: Object.fromEntries(keys.map((key, c) => {
+                const { type, ...rest } = COLUMN_SCHEMAS[sheet.columnTypes?.[c] ?? 'text'];
+                return [key, { type: Array.from(new Set([type, 'string', 'null'])), ...rest }];
+            })),
+            required: keys,
+            additionalProperties: false,
+        },
+    };
+};
+
+/** The whole job as one JSON document: each sheet carries its schema and its records. */
+export const sheetsToJson = (sheets: SheetData[], source: string): string => JSON.stringify({
+    source,
+    sheets: sheets.map(sheet => ({
+        sheetName: sheet.sheetName,
+        schema: buildSheetJsonSchema(sheet),
+        rows: sheetToRecords(sheet),
+    })),
+}, null, 2);
+
+/** One compact record per line, for streaming into data pipelines. */
+export const sheetToNdjson = (sheet: SheetData): string =>
+    sheetToRecords(sheet).map(record => JSON.stringify(record)).join('\n') + '\n';
@@ -0,0 +1,132 @@
+import type { CellRange, CellStyle, ColumnType, CsvOptions, SheetData, TableCopyFormat } from '../types';
+import { sheetToDelimitedText } from './csvService';
+import { getCoveredCells } from './sheetUtils';
+
+const CLIPBOARD_TSV_OPTIONS: CsvOptions = { delimiter: '\t', quoteAll: false, includeBom: false, lineEnding: 'lf' };
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percent'];
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Cuts a rectangular range out of a sheet. Spans are clipped to the range, and only the header
+ * rows that fall inside it stay header rows.
+ */
+export const sliceSheet = (sheet: SheetData, { start, end }: CellRange): SheetData => {
+    const data = sheet.data.slice(start.row, end.row + 1).map((row, r) =>
+        row.slice(start.col, end.col + 1).map((cell, c) => {
+            const clipped = { ...cell };
+            if (cell.rowSpan) clipped.rowSpan = Math.min(cell.rowSpan, end.row - start.row - r + 1);
+            if (cell.colSpan) clipped.colSpan = Math.min(cell.colSpan, end.col - start.col - c + 1);
+            return clipped;
+        })
+    );
+    return {
+        ...sheet,
+        data,
+        headerRowCount: Math.max(0, Math.min(sheet.headerRowCount ?? 1, end.row + 1) - start.row),
+        ...(sheet.columnTypes && { columnTypes: sheet.columnTypes.slice(start.col, end.col + 1) }),
+        ...(sheet.columnWidths && { columnWidths: sheet.columnWidths.slice(start.col, end.col + 1) }),
+    };
+};
+
+const toCss = (style: CellStyle | undefined): string => {
+    if (!style) return '';
+    const rules: string[] = [];
+    if (style.bold) rules.push('font-weight:bold');
+    if (style.italic) rules.push('font-style:italic');
+    const decorations = [style.underline && 'underline', style.strikethrough && 'line-through'].filter(Boolean);
+    if (decorations.length > 0) rules.push(`text-decoration:${decorations.join(' ')}`);
+    if (style.color) rules.push(`color:${style.color}`);
+    if (style.fill) rules.push(`background-color:${style.fill}`);
+    if (style.align) rules.push(`text-align:${style.align}`);
+    return rules.join(';');
+};
+
+/** Renders a sheet as an HTML table with its merges and cell formatting as inline styles. */
+export const sheetToHtmlTable = (sheet: SheetData): string => {
+    const headerRowCount = sheet.headerRowCount ?? 1;
+    const covered = getCoveredCells(sheet.data);
+    const renderRows = (from: number, to: number, tag: 'th' | 'td') => sheet.data.slice(from, to).map((row, i) => {
+        const cells = row.map((cell, c) => {
+            if (covered.has(`${from + i}:${c}`)) return '';
+            const attrs = [
+                cell.rowSpan && cell.rowSpan > 1 ? ` rowspan="${cell.rowSpan}"` : '',
+                cell.colSpan && cell.colSpan > 1 ? ` colspan="${cell.colSpan}"` : '',
+                toCss(cell.style) ? ` style="${escapeHtml(toCss(cell.style))}"` : '',
+            ].join('');
+            return `<${tag}${attrs}>${escapeHtml(cell.value).replace(/\r?\n/g, '<br>')}</${tag}>`;
+        });
+        return `<tr>${cells.join('')}</tr>`;
+    }).join('\n');
+
+    const head = headerRowCount > 0 ? `<thead>\n${renderRows(0, headerRowCount, 'th')}\n</thead>\n` : '';
+    // Borders and padding are attributes so they survive pasting into mail clients that drop stylesheets.
+    return `<table border="1" cellpadding="4" style="border-collapse:collapse">\n${head}<tbody>\n${renderRows(headerRowCount, sheet.data.length, 'td')}\n</tbody>\n</table>`;
+};
+
+/** The tables of several sheets, each under a heading with its name. */
+export const sheetsToHtml = (sheets: SheetData[]): string =>
+    sheets.map(sheet => `<h2>${escapeHtml(sheet.sheetName)}</h2>\n${sheetToHtmlTable(sheet)}`).join('\n');
+
+export const createHtmlDocument = (sheets: SheetData[], title: string): string =>
+    `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>${escapeHtml(title)}</title>\n</head>\n<body>\n${sheetsToHtml(sheets)}\n</body>\n</html>\n`;
+
+const escapeMarkdown = (value: string) => value.trim().replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+
+/**
+ * Renders a sheet as a GitHub-flavoured Markdown table. Markdown allows a single header row, so
+ * the last header row is used (grouped headers above it are dropped) and merged cells are left blank.
+ * Numeric columns are right-aligned.
+ */
+export const sheetToMarkdownTable = (sheet: SheetData): string => {
+    if (sheet.data.length === 0) return '';
+    const columnCount = Math.max(1, ...sheet.data.map(row => row.length));
+    const covered = getCoveredCells(sheet.data);
+    const headerIndex = Math.max(0, (sheet.headerRowCount ?? 1) - 1);
+    const toLine = (r: number) => '| ' + Array.from({ length: columnCount }, (_, c) =>
+        covered.has(`${r}:${c}`) ? '' : escapeMarkdown(sheet.data[r][c]?.value ?? '')
+    ).join(' | ') + ' |';
+    const separator = '|' + Array.from({ length: columnCount }, (_, c) =>
+        NUMERIC_TYPES.includes(sheet.columnTypes?.[c] ?? 'text') ? ' ---: ' : ' --- '
+    ).join('|') + '|';
+    const bodyLines = sheet.data.slice(headerIndex + 1).map((_, i) => toLine(headerIndex + 1 + i));
+    return [toLine(headerIndex), separator, ...bodyLines].join('\n') + '\n';
+};
+
+export const sheetsToMarkdown = (sheets: SheetData[]): string =>
+    sheets.map(sheet => `## ${escapeMarkdown(sheet.sheetName)}\n\n${sheetToMarkdownTable(sheet)}`).join('\n');
+
+const sheetsToClipboardTsv = (sheets: SheetData[]): string => {
+    const tsv = sheets.map(sheet => sheetToDelimitedText(sheet, CLIPBOARD_TSV_OPTIONS));
+    return sheets.length === 1 ? tsv[0] : sheets.map((sheet, i) => `${sheet.sheetName}\n${tsv[i]}`).join('\n');
+};
+
+/**
+ * Copies sheets to the clipboard. A single sheet is copied as a bare table; several are each
+ * preceded by their name. The HTML flavour is offered as rich text so it pastes as a table, with
+ * the TSV text for apps that only take plain text.
+ */
+export const copySheetsToClipboard = async (sheets: SheetData[], format: TableCopyFormat): Promise<void> => {
+    if (format === 'html') {
+        const html = sheets.length === 1 ? sheetToHtmlTable(sheets[0]) : sheetsToHtml(sheets);
+        if (typeof ClipboardItem !== 'undefined') {
+            await navigator.clipboard.write([new ClipboardItem({
+                'text/html': new Blob([html], { type: 'text/html' }),
+                'text/plain': new Blob([sheetsToClipboardTsv(sheets)], { type: 'text/plain' }),
+            })]);
+            return;
+        }
+        await navigator.clipboard.writeText(html);
+        return;
+    }
+    if (format === 'markdown') {
+        await navigator.clipboard.writeText(sheets.length === 1 ? sheetToMarkdownTable(sheets[0]) : sheetsToMarkdown(sheets));
+        return;
+    }
+    await navigator.clipboard.writeText(sheetsToClipboardTsv(sheets));
+};
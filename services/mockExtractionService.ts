@@ -0,0 +1,60 @@
+import type { ExtractionProvider, ExtractionRequest, FormField, RawSheetData } from '../types';
+import { parseExtractionResponse, parseFormResponse, fingerprintImages, loadRecordedExtractions } from './extractionResponse';
+import type { RecordedExtraction } from './extractionResponse';
+import { delay } from './extractionErrors';
+
+const SAMPLE_RESPONSE = JSON.stringify({
+    sheets: [
+        {
+            sheetName: 'Sample Invoice Lines',
+            data: [
+                ['Item', 'Description', 'Quantity', 'Unit Price', 'Amount'],
+                ['1001', 'Printer paper A4', '10', '4.50', '45.00'],
+                ['1002', 'Toner cartridge', '2', '62.00', '124.00'],
+                ['1003', 'Desk organiser', '3', '12.75', '38.25'],
+            ],
+        },
+    ],
+});
+
+const SAMPLE_FORM_RESPONSE = JSON.stringify({
+    fields: [
+        { label: 'Applicant Name', value: 'Jane Doe', confidence: 0.98 },
+        { label: 'Date of Birth', value: '1988-04-12', confidence: 0.95 },
+        { label: 'Policy Number', value: 'PN-40231', confidence: 0.91 },
+        { label: 'Signed', value: 'Yes', confidence: 0.72 },
+    ],
+});
+
+const SIMULATED_LATENCY_MS = 300;
+
+/**
+ * Builds an offline provider that replays previously recorded model responses.
+ * Only a recording whose fingerprint matches the request's pages is replayed; any other
+ * input gets the built-in sample, so it is never mistaken for an unrelated document.
+ */
+export const createMockExtractionProvider = (recordings: RecordedExtraction[] = []): ExtractionProvider => {
+    const replay = async (images: string[], kind: RecordedExtraction['kind'], fallback: string, signal?: AbortSignal): Promise<string> => {
+        const available = [...recordings, ...loadRecordedExtractions()].filter(r => (r.kind ?? 'tables') === kind);
+        const fingerprint = fingerprintImages(images);
+        const recording = available.find(r => r.fingerprint === fingerprint);
+
+        await delay(SIMULATED_LATENCY_MS, signal);
+        return recording ? recording.responseText : fallback;
+    };
+
+    const extract = async ({ images, signal }: ExtractionRequest): Promise<RawSheetData[]> =>
+        parseExtractionResponse(await replay(images, 'tables', SAMPLE_RESPONSE, signal));
+
+    const extractFields = async ({ images, signal }: ExtractionRequest): Promise<FormField[]> =>
+        parseFormResponse(await replay(images, 'fields', SAMPLE_FORM_RESPONSE, signal));
+
+    return {
+        id: 'mock',
+        name: 'Offline Replay',
+        extract,
+        extractFields,
+    };
+};
+
+export const mockProvider = createMockExtractionProvider();
@@ -0,0 +1,211 @@
+import type { CellData, CellStyle, ColumnType, SheetData } from '../types';
+import { parseTypedValue, findCurrencySymbol, getDefaultLocale } from './valueParser';
+import { getCoveredCells } from './sheetUtils';
+import { sanitizeSheetName, getUniqueSheetName } from './workbookMerge';
+
+const ODS_MIME_TYPE = 'application/vnd.oasis.opendocument.spreadsheet';
+
+const NAMESPACES = [
+    'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+    'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+    'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+    'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+    'xmlns:number="urn:oasis:names:tc:opendocument:xmlns:datastyle:1.0"',
+    'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+].join(' ');
+
+const MANIFEST = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.2">
+ <manifest:file-entry manifest:full-path="/" manifest:media-type="${ODS_MIME_TYPE}"/>
+ <manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+</manifest:manifest>`;
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+
+const ALIGN_TO_ODF: Record<NonNullable<CellStyle['align']>, string> = { left: 'start', center: 'center', right: 'end' };
+
+// Data styles are shared by every cell of a type; currency ones are keyed by their symbol.
+const buildDataStyle = (name: string, type: ColumnType, currencySymbol: string | null): string => {
+    const grouped = '<number:number number:decimal-places="2" number:min-decimal-places="2" number:min-integer-digits="1" number:grouping="true"/>';
+    switch (type) {
+        case 'integer':
+            return `<number:number-style style:name="${name}"><number:number number:decimal-places="0" number:min-integer-digits="1" number:grouping="true"/></number:number-style>`;
+        case 'decimal':
+            return `<number:number-style style:name="${name}">${grouped}</number:number-style>`;
+        case 'currency':
+            return `<number:currency-style style:name="${name}">${currencySymbol ? `<number:currency-symbol>${escapeXml(currencySymbol)}</number:currency-symbol>` : ''}${grouped}</number:currency-style>`;
+        case 'percent':
+            return `<number:percentage-style style:name="${name}"><number:number number:decimal-places="2" number:min-decimal-places="2" number:min-integer-digits="1"/><number:text>%</number:text></number:percentage-style>`;
+        case 'date':
+            return `<number:date-style style:name="${name}"><number:year number:style="long"/><number:text>-</number:text><number:month number:style="long"/><number:text>-</number:text><number:day number:style="long"/></number:date-style>`;
+        default:
+            return '';
+    }
+};
+
+const buildCellStyle = (name: string, style: CellStyle, dataStyleName: string | null): string => {
+    const text: string[] = [];
+    if (style.bold) text.push('fo:font-weight="bold"');
+    if (style.italic) text.push('fo:font-style="italic"');
+    if (style.underline) text.push('style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"');
+    if (style.strikethrough) text.push('style:text-line-through-style="solid"');
+    if (style.color) text.push(`fo:color="${escapeXml(style.color)}"`);
+    return `<style:style style:name="${name}" style:family="table-cell"${dataStyleName ? ` style:data-style-name="${dataStyleName}"` : ''}>`
+        + (style.fill ? `<style:table-cell-properties fo:background-color="${escapeXml(style.fill)}"/>` : '')
+        + (style.align ? `<style:paragraph-properties fo:text-align="${ALIGN_TO_ODF[style.align]}"/>` : '')
+        + (text.length > 0 ? `<style:text-properties ${text.join(' ')}/>` : '')
+        + '</style:style>';
+};
+
+/** Collects the automatic styles of a document, handing out one name per distinct combination. */
+const createStyleRegistry = () => {
+    const dataStyles = new Map<string, { name: string; xml: string }>();
+    const cellStyles = new Map<string, { name: string; xml: string }>();
+    const columnStyles = new Map<number, { name: string; xml: string }>();
+
+    const getDataStyle = (type: ColumnType, currencySymbol: string | null): string | null => {
+        const key = `${type}:${currencySymbol ?? ''}`;
+        let entry = dataStyles.get(key);
+        if (!entry) {
+            const name = `N${dataStyles.size + 1}`;
+            const xml = buildDataStyle(name, type, currencySymbol);
+            if (!xml) return null;
+            entry = { name, xml };
+            dataStyles.set(key, entry);
+        }
+        return entry.name;
+    };
+
+    const getCellStyle = (style: CellStyle | undefined, dataStyleName: string | null): string | null => {
+        const hasFormatting = !!style && Object.values(style).some(Boolean);
+        if (!hasFormatting && !dataStyleName) return null;
+        const key = JSON.stringify([style ?? {}, dataStyleName]);
+        let entry = cellStyles.get(key);
+        if (!entry) {
+            const name = `ce${cellStyles.size + 1}`;
+            entry = { name, xml: buildCellStyle(name, style ?? {}, dataStyleName) };
+            cellStyles.set(key, entry);
+        }
+        return entry.name;
+    };
+
+    // Widths are in characters; a character of the default 10pt font is roughly 0.19cm wide.
+    const getColumnStyle = (width: number): string => {
+        const key = Math.round(width * 100);
+        let entry = columnStyles.get(key);
+        if (!entry) {
+            const name = `co${columnStyles.size + 1}`;
+            const xml = `<style:style style:name="${name}" style:family="table-column"><style:table-column-properties style:column-width="${(width * 0.19).toFixed(3)}cm"/></style:style>`;
+            entry = { name, xml };
+            columnStyles.set(key, entry);
+        }
+        return entry.name;
+    };
+
+    const toXml = () => [...dataStyles.values(), ...cellStyles.values(), ...columnStyles.values()].map(s => s.xml).join('');
+
+    return { getDataStyle, getCellStyle, getColumnStyle, toXml };
+};
+
+const buildCellXml = (
+    cell: CellData,
+    columnType: ColumnType | undefined,
+    locale: string,
+    currencySymbol: string | null,
+    styles: ReturnType<typeof createStyleRegistry>,
+): string => {
+    const attrs: string[] = [];
+    if (cell.colSpan && cell.colSpan > 1) attrs.push(`table:number-columns-spanned="${cell.colSpan}"`);
+    if (cell.rowSpan && cell.rowSpan > 1) attrs.push(`table:number-rows-spanned="${cell.rowSpan}"`);
+
+    const typed = columnType ? parseTypedValue(cell.value, columnType, locale) : null;
+    let dataStyleName: string | null = null;
+    if (typed instanceof Date) {
+        attrs.push(`office:value-type="date" office:date-value="${typed.toISOString().slice(0, 10)}"`);
+        dataStyleName = styles.getDataStyle('date', null);
+    } else if (typeof typed === 'boolean') {
+        attrs.push(`office:value-type="boolean" office:boolean-value="${typed}"`);
+    } else if (typeof typed === 'number') {
+        if (columnType === 'percent') {
+            attrs.push(`office:value-type="percentage" office:value="${typed}"`);
+        } else if (columnType === 'currency') {
+            attrs.push(`office:value-type="currency" office:value="${typed}"`);
+        } else {
+            attrs.push(`office:value-type="float" office:value="${typed}"`);
+        }
+        dataStyleName = styles.getDataStyle(columnType!, currencySymbol);
+    } else if (cell.value !== '') {
+        attrs.push('office:value-type="string"');
+    }
+
+    const styleName = styles.getCellStyle(cell.style, dataStyleName);
+    if (styleName) attrs.unshift(`table:style-name="${styleName}"`);
+
+    const content = cell.value === '' ? '' : `<text:p>${escapeXml(cell.value)}</text:p>`;
+    return `<table:table-cell${attrs.length > 0 ? ' ' + attrs.join(' ') : ''}>${content}</table:table-cell>`;
+};
+
+const buildTableXml = (sheet: SheetData, tableName: string, styles: ReturnType<typeof createStyleRegistry>): string => {
+    const locale = sheet.locale || getDefaultLocale();
+    const headerRowCount = sheet.headerRowCount ?? 1;
+    const columnCount = Math.max(1, ...sheet.data.map(row => row.length));
+    const covered = getCoveredCells(sheet.data);
+    const currencySymbols = (sheet.columnTypes || []).map((type, c) =>
+        type === 'currency' ? findCurrencySymbol(sheet.data.slice(headerRowCount).map(row => row[c]?.value ?? '')) : null
+    );
+
+    const rows = sheet.data.map((row, r) => {
+        const cells = Array.from({ length: columnCount }, (_, c) => {
+            if (covered.has(`${r}:${c}`)) return '<table:covered-table-cell/>';
+            const cell = row[c] ?? { value: '' };
+            const columnType = r >= headerRowCount ? sheet.columnTypes?.[c] : undefined;
+            return buildCellXml(cell, columnType, locale, currencySymbols[c] ?? null, styles);
+        });
+        return `<table:table-row>${cells.join('')}</table:table-row>`;
+    });
+
+    const columns = sheet.columnWidths
+        ? Array.from({ length: columnCount }, (_, c) => {
+            const width = sheet.columnWidths![c];
+            return width ? `<table:table-column table:style-name="${styles.getColumnStyle(width)}"/>` : '<table:table-column/>';
+        }).join('')
+        : `<table:table-column table:number-columns-repeated="${columnCount}"/>`;
+
+    return `<table:table table:name="${escapeXml(tableName)}">`
+        + columns
+        + rows.join('')
+        + '</table:table>';
+};
+
+/**
+ * Writes sheets as an OpenDocument spreadsheet. SheetJS drops cell formatting when writing
+ * ODS, so the document is assembled here with typed values, merges and CellStyle formatting.
+ */
+export const createOdsBlob = async (sheets: SheetData[]): Promise<Blob> => {
+    const styles = createStyleRegistry();
+    // Spreadsheet apps reject documents with repeated table names, so they follow Excel's naming rules.
+    const usedNames: string[] = [];
+    const tables = sheets.map(sheet => {
+        const tableName = getUniqueSheetName(usedNames, sanitizeSheetName(sheet.sheetName));
+        usedNames.push(tableName);
+        return buildTableXml(sheet, tableName, styles);
+    }).join('');
+    const content = `<?xml version="1.0" encoding="UTF-8"?>`
+        + `<office:document-content ${NAMESPACES} office:version="1.2">`
+        + `<office:automatic-styles>${styles.toXml()}</office:automatic-styles>`
+        + `<office:body><office:spreadsheet>${tables}</office:spreadsheet></office:body>`
+        + '</office:document-content>';
+
+    // @ts-ignore
+    const zip = new JSZip();
+    // The mimetype entry must come first and be stored uncompressed.
+    zip.file('mimetype', ODS_MIME_TYPE, { compression: 'STORE' });
+    zip.file('META-INF/manifest.xml', MANIFEST);
+    zip.file('content.xml', content);
+    return zip.generateAsync({ type: 'blob', mimeType: ODS_MIME_TYPE, compression: 'DEFLATE' });
+};
@@ -0,0 +1,123 @@
+import type { CellData, CellStyle, PdfOptions, SheetData } from '../types';
+import { getCoveredCells } from './sheetUtils';
+import { resolveFormulas } from './formulaEngine';
+
+// jsPDF draws text with this line height unless told otherwise; autoTable uses the same value.
+const LINE_HEIGHT_FACTOR = 1.15;
+
+const toAutoTableStyles = (style: CellStyle | undefined) => {
+    const styles: Record<string, unknown> = {};
+    if (!style) return styles;
+    if (style.bold || style.italic) {
+        styles.fontStyle = style.bold && style.italic ? 'bolditalic' : style.bold ? 'bold' : 'italic';
+    }
+    if (style.color) styles.textColor = style.color;
+    if (style.fill) styles.fillColor = style.fill;
+    if (style.align) styles.halign = style.align;
+    return styles;
+};
+
+// The parts of the data autoTable passes to didDrawCell that are read here.
+interface CellHookData {
+    doc: {
+        internal: { scaleFactor: number };
+        setDrawColor: (...color: (number | string)[]) => void;
+        setLineWidth: (width: number) => void;
+        getTextWidth: (text: string) => number;
+        line: (x1: number, y1: number, x2: number, y2: number) => void;
+    };
+    cell: {
+        raw?: { cellStyle?: CellStyle };
+        text: string[];
+        styles: {
+            fontSize: number;
+            valign: 'top' | 'middle' | 'bottom';
+            halign: 'left' | 'center' | 'right' | 'justify';
+            textColor: number | string | [number, number, number];
+        };
+        getTextPos: () => { x: number; y: number };
+    };
+}
+
+/**
+ * autoTable has no underline or strikethrough, so the lines are drawn over each text line after
+ * the cell is painted, using the same baseline arithmetic autoTable uses to place the text.
+ */
+const drawTextDecorations = (data: CellHookData) => {
+    const style: CellStyle | undefined = data.cell.raw?.cellStyle;
+    if (!style?.underline && !style?.strikethrough) return;
+
+    const { doc, cell } = data;
+    const lines: string[] = cell.text;
+    if (lines.length === 0 || lines.every(line => line === '')) return;
+
+    const fontSize = cell.styles.fontSize / doc.internal.scaleFactor;
+    const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+    const { x, y } = cell.getTextPos();
+    let baseline = y + fontSize * (2 - LINE_HEIGHT_FACTOR);
+    if (cell.styles.valign === 'middle') baseline -= (lines.length / 2) * lineHeight;
+    else if (cell.styles.valign === 'bottom') baseline -= lines.length * lineHeight;
+
+    const color = cell.styles.textColor;
+    if (Array.isArray(color)) doc.setDrawColor(...color);
+    else doc.setDrawColor(color);
+    doc.setLineWidth(Math.max(0.1, fontSize / 18));
+
+    lines.forEach((line, i) => {
+        const width = doc.getTextWidth(line);
+        if (width === 0) return;
+        const left = cell.styles.halign === 'center' ? x - width / 2 : cell.styles.halign === 'right' ? x - width : x;
+        const lineBaseline = baseline + i * lineHeight;
+        if (style.underline) doc.line(left, lineBaseline + fontSize * 0.12, left + width, lineBaseline + fontSize * 0.12);
+        if (style.strikethrough) doc.line(left, lineBaseline - fontSize * 0.3, left + width, lineBaseline - fontSize * 0.3);
+    });
+};
+
+const toAutoTableCell = (cell: CellData) => ({
+    content: cell.value,
+    styles: toAutoTableStyles(cell.style),
+    cellStyle: cell.style,
+    ...(cell.colSpan && cell.colSpan > 1 && { colSpan: cell.colSpan }),
+    ...(cell.rowSpan && cell.rowSpan > 1 && { rowSpan: cell.rowSpan }),
+});
+
+// autoTable expects the cells hidden under a span to be left out of their rows.
+const toAutoTableRows = (sheet: SheetData) => {
+    const covered = getCoveredCells(sheet.data);
+    return sheet.data.map((row, r) => row.filter((_, c) => !covered.has(`${r}:${c}`)).map(toAutoTableCell));
+};
+
+// Source column widths are in characters; about 1.9mm per character at the default font size.
+const toColumnStyles = (widths: number[] | undefined) =>
+    widths ? Object.fromEntries(widths.map((width, c) => [c, { cellWidth: width * 1.9 }])) : {};
+
+/** Renders each sheet as a table on its own page, applying every cell's CellStyle. */
+export const createPdfFromSheets = (sheets: SheetData[], options: PdfOptions) => {
+    // @ts-ignore
+    const { jsPDF } = window.jspdf;
+    const doc = new jsPDF({ orientation: options.orientation });
+
+    // A PDF shows what the sheet shows, so formulas are printed as their results.
+    sheets.map(resolveFormulas).forEach((sheet, index) => {
+        if (index > 0) {
+            doc.addPage();
+        }
+        const rows = toAutoTableRows(sheet);
+        const headerRowCount = Math.max(1, Math.min(sheet.headerRowCount ?? 1, rows.length));
+
+        doc.text(sheet.sheetName, 14, 16);
+        doc.autoTable({
+            head: rows.slice(0, headerRowCount),
+            body: rows.slice(headerRowCount),
+            startY: 20,
+            theme: 'striped',
+            styles: { fontSize: options.fontSize },
+            headStyles: { fillColor: [79, 70, 229] },
+            tableWidth: options.autoWidth ? 'auto' : 'wrap',
+            columnStyles: options.autoWidth ? {} : toColumnStyles(sheet.columnWidths),
+            didDrawCell: drawTextDecorations,
+        });
+    });
+
+    return doc;
+};
@@ -0,0 +1,177 @@
+import type { CellData, SheetData, StructuralEdit } from '../types';
+import { getMergeRanges, getColumnLetter } from './sheetUtils';
+import { inferColumnTypes, getDefaultLocale } from './valueParser';
+import { isFormula, shiftReferences, type SpanMap } from './formulaEngine';
+
+// Excel's default column width, in characters, for columns inserted into a sheet with known widths.
+const DEFAULT_COLUMN_WIDTH = 8.43;
+
+// Each entry is the old index a new row or column is taken from, or null for a new blank one.
+type IndexMap = (number | null)[];
+
+const indexes = (count: number): number[] => Array.from({ length: count }, (_, i) => i);
+
+const insertAt = (count: number, index: number): IndexMap => {
+    const map: IndexMap = indexes(count);
+    map.splice(Math.max(0, Math.min(index, count)), 0, null);
+    return map;
+};
+
+const removeRange = (count: number, start: number, length: number): IndexMap =>
+    indexes(count).filter(i => i < start || i >= start + length);
+
+const moveTo = (count: number, from: number, to: number): IndexMap => {
+    const map = indexes(count);
+    const [moved] = map.splice(from, 1);
+    map.splice(Math.max(0, Math.min(to, count - 1)), 0, moved);
+    return map;
+};
+
+const duplicateAt = (count: number, index: number): IndexMap => {
+    const map = indexes(count);
+    map.splice(index + 1, 0, index);
+    return map;
+};
+
+// Where each old index ended up; for a duplicated row the original, which comes first, wins.
+const invert = (map: IndexMap, count: number): (number | undefined)[] => {
+    const positions: (number | undefined)[] = new Array(count).fill(undefined);
+    map.forEach((source, position) => {
+        if (source !== null && positions[source] === undefined) positions[source] = position;
+    });
+    return positions;
+};
+
+/**
+ * Maps spans of old indexes to new ones for formula references: a span keeps the range of its
+ * indexes that are left, so it grows with rows inserted inside it and shrinks as they are deleted.
+ * Indexes past the end of the sheet shift by the number of rows or columns added or removed.
+ */
+const toSpanMap = (map: IndexMap, count: number): SpanMap => {
+    const positions = invert(map, count);
+    const shift = map.length - count;
+    return (first, last) => {
+        let low = Infinity, high = -Infinity;
+        const include = (position: number | undefined) => {
+            if (position === undefined) return;
+            low = Math.min(low, position);
+            high = Math.max(high, position);
+        };
+        for (let i = first; i <= Math.min(last, count - 1); i++) include(positions[i]);
+        if (last >= count) {
+            include(Math.max(first, count) + shift);
+            include(last + shift);
+        }
+        return low === Infinity ? null : [low, high];
+    };
+};
+
+// A span survives only when all of its rows (or columns) are still there, side by side and in order.
+const remapSpan = (start: number, length: number, positions: (number | undefined)[]): number | null => {
+    const first = positions[start];
+    if (first === undefined) return null;
+    for (let i = 1; i < length; i++) {
+        if (positions[start + i] !== first + i) return null;
+    }
+    return first;
+};
+
+const withHeaderRowCount = (sheet: SheetData, headerRowCount: number): SheetData => {
+    const { headerRowCount: _, ...rest } = sheet;
+    return headerRowCount > 1 ? { ...rest, headerRowCount } : rest;
+};
+
+/**
+ * Rebuilds a sheet from row and column index maps, carrying along column types and widths.
+ * Merges that an edit would split are unmerged, keeping the value in their top-left cell.
+ */
+const remapSheet = (sheet: SheetData, rowMap: IndexMap, columnMap: IndexMap): SheetData => {
+    const columnCount = Math.max(0, ...sheet.data.map(row => row.length));
+    const data: CellData[][] = rowMap.map(r => columnMap.map(c => {
+        const source = r === null || c === null ? undefined : sheet.data[r][c];
+        if (!source) return { value: '', style: {} };
+        const { rowSpan, colSpan, ...cell } = source;
+        return { ...cell, style: { ...cell.style } };
+    }));
+
+    const rowPositions = invert(rowMap, sheet.data.length);
+    const columnPositions = invert(columnMap, columnCount);
+    for (const merge of getMergeRanges(sheet.data)) {
+        const row = remapSpan(merge.row, merge.rowSpan, rowPositions);
+        const col = remapSpan(merge.col, merge.colSpan, columnPositions);
+        if (row === null || col === null) continue;
+        if (merge.rowSpan > 1) data[row][col].rowSpan = merge.rowSpan;
+        if (merge.colSpan > 1) data[row][col].colSpan = merge.colSpan;
+    }
+
+    // Formulas keep pointing at the same cells wherever those end up.
+    const rowSpans = toSpanMap(rowMap, sheet.data.length);
+    const columnSpans = toSpanMap(columnMap, columnCount);
+    for (const row of data) {
+        for (const cell of row) {
+            if (isFormula(cell.value)) cell.value = shiftReferences(cell.value, rowSpans, columnSpans);
+        }
+    }
+
+    // New rows belong to the header when inserted inside it.
+    const headerRowCount = sheet.headerRowCount ?? 1;
+    const newHeaderRowCount = rowMap.filter((r, position) => (r === null ? position : r) < headerRowCount).length;
+
+    const result: SheetData = { ...withHeaderRowCount(sheet, newHeaderRowCount), data };
+    if (sheet.columnTypes) result.columnTypes = columnMap.map(c => (c === null ? undefined : sheet.columnTypes![c]) ?? 'text');
+    if (sheet.columnWidths) result.columnWidths = columnMap.map(c => (c === null ? undefined : sheet.columnWidths![c]) ?? DEFAULT_COLUMN_WIDTH);
+    return result;
+};
+
+const getColumnCount = (sheet: SheetData) => Math.max(0, ...sheet.data.map(row => row.length));
+
+// Edits that add, remove or reorder rows or columns, as opposed to changing how rows are read.
+type MovingEdit = Exclude<StructuralEdit, { type: 'promote-to-header' }>;
+
+const getIndexMaps = (sheet: SheetData, edit: MovingEdit): { rowMap: IndexMap; columnMap: IndexMap } => {
+    const rowCount = sheet.data.length;
+    const columnCount = getColumnCount(sheet);
+    switch (edit.type) {
+        case 'insert-row': return { rowMap: insertAt(rowCount, edit.index), columnMap: indexes(columnCount) };
+        case 'delete-rows': return { rowMap: removeRange(rowCount, edit.start, edit.count), columnMap: indexes(columnCount) };
+        case 'duplicate-row': return { rowMap: duplicateAt(rowCount, edit.index), columnMap: indexes(columnCount) };
+        case 'move-row': return { rowMap: moveTo(rowCount, edit.from, edit.to), columnMap: indexes(columnCount) };
+        case 'insert-column': return { rowMap: indexes(rowCount), columnMap: insertAt(columnCount, edit.index) };
+        case 'delete-columns': return { rowMap: indexes(rowCount), columnMap: removeRange(columnCount, edit.start, edit.count) };
+        case 'move-column': return { rowMap: indexes(rowCount), columnMap: moveTo(columnCount, edit.from, edit.to) };
+    }
+};
+
+/** For each column of the sheet after `edit`, the column it was before, or null when the edit inserts it. */
+export const getColumnMap = (sheet: SheetData, edit: StructuralEdit): (number | null)[] =>
+    edit.type === 'promote-to-header' ? indexes(getColumnCount(sheet)) : getIndexMaps(sheet, edit).columnMap;
+
+/** Returns a copy of the sheet with the rows or columns changed as described by `edit`. */
+export const applyStructuralEdit = (sheet: SheetData, edit: StructuralEdit): SheetData => {
+    if (edit.type === 'promote-to-header') {
+        // The promoted row becomes the last header row; rows above it stay on as grouped headers.
+        const headerRowCount = edit.index + 1;
+        return {
+            ...withHeaderRowCount(sheet, headerRowCount),
+            columnTypes: inferColumnTypes(sheet.data, sheet.locale || getDefaultLocale(), headerRowCount),
+        };
+    }
+    const { rowMap, columnMap } = getIndexMaps(sheet, edit);
+    return remapSheet(sheet, rowMap, columnMap);
+};
+
+/** A short description of an edit for the undo history, with rows numbered from 1 and columns lettered. */
+export const describeStructuralEdit = (edit: StructuralEdit): string => {
+    const rows = (start: number, count: number) => count === 1 ? `row ${start + 1}` : `rows ${start + 1}–${start + count}`;
+    const columns = (start: number, count: number) => count === 1 ? `column ${getColumnLetter(start)}` : `columns ${getColumnLetter(start)}–${getColumnLetter(start + count - 1)}`;
+    switch (edit.type) {
+        case 'insert-row': return `Insert ${rows(edit.index, 1)}`;
+        case 'delete-rows': return `Delete ${rows(edit.start, edit.count)}`;
+        case 'duplicate-row': return `Duplicate ${rows(edit.index, 1)}`;
+        case 'move-row': return `Move row ${edit.from + 1} to ${edit.to + 1}`;
+        case 'insert-column': return `Insert ${columns(edit.index, 1)}`;
+        case 'delete-columns': return `Delete ${columns(edit.start, edit.count)}`;
+        case 'move-column': return `Move column ${getColumnLetter(edit.from)} to ${getColumnLetter(edit.to)}`;
+        case 'promote-to-header': return `Promote row ${edit.index + 1} to header`;
+    }
+};
@@ -0,0 +1,72 @@
+import type { RawSheetData, CellData, CellMerge } from '../types';
+
+export const headersMatch = (a: string[], b: string[]) =>
+    a.length === b.length && a.every((value, i) => value.trim().toLowerCase() === b[i].trim().toLowerCase());
+
+/** Reduces a label to lower-case words, so headers, field labels and template names compare loosely. */
+export const normalizeLabel = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Appends the data rows of `continuation` (its header rows are dropped) to `target`,
+ * keeping the optional per-cell confidence, source box and merge information aligned with the data.
+ */
+export const appendSheetRows = (target: RawSheetData, continuation: RawSheetData): RawSheetData => {
+    const headerRows = continuation.headerRowCount ?? 1;
+    const rows = continuation.data.slice(headerRows);
+    const merged: RawSheetData = { ...target, data: [...target.data, ...rows] };
+    if (target.confidence || continuation.confidence) {
+        merged.confidence = [
+            ...(target.confidence ?? target.data.map(row => row.map(() => null))),
+            ...(continuation.confidence?.slice(headerRows) ?? rows.map(row => row.map(() => null))),
+        ];
+    }
+    if (target.sourceBoxes || continuation.sourceBoxes) {
+        merged.sourceBoxes = [
+            ...(target.sourceBoxes ?? target.data.map(row => row.map(() => null))),
+            ...(continuation.sourceBoxes?.slice(headerRows) ?? rows.map(row => row.map(() => null))),
+        ];
+    }
+    const shiftedMerges = (continuation.merges ?? [])
+        .filter(m => m.row >= headerRows)
+        .map(m => ({ ...m, row: m.row - headerRows + target.data.length }));
+    if (target.merges || shiftedMerges.length > 0) {
+        merged.merges = [...(target.merges ?? []), ...shiftedMerges];
+    }
+    return merged;
+};
+
+/** Lists the merged ranges of a sheet from the spans set on their top-left cells. */
+export const getMergeRanges = (data: CellData[][]): CellMerge[] => {
+    const merges: CellMerge[] = [];
+    data.forEach((row, r) => row.forEach((cell, c) => {
+        const rowSpan = cell.rowSpan ?? 1;
+        const colSpan = cell.colSpan ?? 1;
+        if (rowSpan > 1 || colSpan > 1) merges.push({ row: r, col: c, rowSpan, colSpan });
+    }));
+    return merges;
+};
+
+/** Returns "row:col" keys for every cell hidden under another cell's span. */
+export const getCoveredCells = (data: CellData[][]): Set<string> => {
+    const covered = new Set<string>();
+    for (const { row, col, rowSpan, colSpan } of getMergeRanges(data)) {
+        for (let r = row; r < row + rowSpan; r++) {
+            for (let c = col; c < col + colSpan; c++) {
+                if (r !== row || c !== col) covered.add(`${r}:${c}`);
+            }
+        }
+    }
+    return covered;
+};
+
+/** Returns the spreadsheet letters of a zero-based column index: 0 → "A", 26 → "AA". */
+export const getColumnLetter = (col: number): string => {
+    let letters = '';
+    for (let n = col + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(65 + (n - 1) % 26) + letters;
+    }
+    return letters;
+};
+
+/** Formats a zero-based cell position as an A1 reference. */
+export const getCellRef = (row: number, col: number): string => `${getColumnLetter(col)}${row + 1}`;
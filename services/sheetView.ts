@@ -0,0 +1,102 @@
+import type { CellData, ColumnFilter, ColumnType, SheetData, SheetView } from '../types';
+import { parseTypedValue, parseLocaleNumber, inferColumnType, getDefaultLocale } from './valueParser';
+
+type SortKey = number | string | null;
+
+export const EMPTY_VIEW: SheetView = { filters: {} };
+
+export const isViewActive = (view: SheetView | undefined): boolean =>
+    !!view && (!!view.sort || Object.keys(view.filters).length > 0);
+
+// Sheets saved before column types were tracked fall back to inferring them from the body.
+const getColumnType = (sheet: SheetData, column: number, headerRowCount: number, locale: string): ColumnType =>
+    sheet.columnTypes?.[column] ?? inferColumnType(sheet.data.slice(headerRowCount).map(row => row[column]?.value ?? ''), locale);
+
+// Dates and numbers sort by their parsed value; anything that does not parse sorts as text, after them when ascending.
+const toSortKey = (value: string, type: ColumnType, locale: string): SortKey => {
+    if (value.trim() === '') return null;
+    const typed = parseTypedValue(value, type, locale);
+    if (typed instanceof Date) return typed.getTime();
+    if (typeof typed === 'number') return typed;
+    if (typeof typed === 'boolean') return typed ? 1 : 0;
+    return value.trim();
+};
+
+const matchesFilter = (value: string, filter: ColumnFilter, type: ColumnType, locale: string): boolean => {
+    switch (filter.kind) {
+        case 'blank': return value.trim() === '';
+        case 'not-blank': return value.trim() !== '';
+        case 'contains': return value.toLocaleLowerCase().includes(filter.text.toLocaleLowerCase());
+        case 'range': {
+            const typed = parseTypedValue(value, type, locale);
+            const number = typeof typed === 'number' ? typed : parseLocaleNumber(value, locale)?.value;
+            if (number === undefined) return false;
+            return (filter.min === undefined || number >= filter.min) && (filter.max === undefined || number <= filter.max);
+        }
+    }
+};
+
+/**
+ * Indexes into `sheet.data` of the body rows that pass every filter of the view, in sorted order.
+ * Blank cells sort last in either direction, and rows with equal keys keep their extraction order.
+ */
+export const getVisibleRowIndexes = (sheet: SheetData, view: SheetView | undefined): number[] => {
+    const headerRowCount = Math.max(1, Math.min(sheet.headerRowCount ?? 1, sheet.data.length));
+    const locale = sheet.locale || getDefaultLocale();
+    const valueAt = (r: number, c: number) => sheet.data[r][c]?.value ?? '';
+
+    let visible = Array.from({ length: sheet.data.length - headerRowCount }, (_, i) => i + headerRowCount);
+    if (!view) return visible;
+
+    for (const [key, filter] of Object.entries(view.filters)) {
+        const column = Number(key);
+        const type = getColumnType(sheet, column, headerRowCount, locale);
+        visible = visible.filter(r => matchesFilter(valueAt(r, column), filter, type, locale));
+    }
+
+    if (view.sort) {
+        const { column, direction } = view.sort;
+        const type = getColumnType(sheet, column, headerRowCount, locale);
+        const collator = new Intl.Collator(locale, { numeric: true, sensitivity: 'base' });
+        const keys = new Map(visible.map(r => [r, toSortKey(valueAt(r, column), type, locale)]));
+        const sign = direction === 'asc' ? 1 : -1;
+        visible.sort((a, b) => {
+            const ka = keys.get(a)!, kb = keys.get(b)!;
+            if (ka === null || kb === null) return ka === kb ? a - b : ka === null ? 1 : -1;
+            if (typeof ka !== typeof kb) return typeof ka === 'number' ? -sign : sign;
+            const order = typeof ka === 'number' ? ka - (kb as number) : collator.compare(ka, kb as string);
+            return order === 0 ? a - b : sign * order;
+        });
+    }
+    return visible;
+};
+
+/** The view with its sort and filter columns moved by `remap`; those it maps to null are dropped. */
+export const remapViewColumns = (view: SheetView, remap: (column: number) => number | null): SheetView => {
+    const filters: Record<number, ColumnFilter> = {};
+    for (const [key, filter] of Object.entries(view.filters)) {
+        const column = remap(Number(key));
+        if (column !== null) filters[column] = filter;
+    }
+    const sortColumn = view.sort ? remap(view.sort.column) : null;
+    return sortColumn === null ? { filters } : { sort: { ...view.sort!, column: sortColumn }, filters };
+};
+
+/** Drops vertical merges from body rows, which no longer line up once rows are sorted or hidden. */
+export const withoutBodyRowSpans = (data: CellData[][], headerRowCount: number): CellData[][] =>
+    data.map((row, r) => r < headerRowCount ? row : row.map(cell => {
+        if (!cell.rowSpan) return cell;
+        const { rowSpan, ...rest } = cell;
+        return rest;
+    }));
+
+/** A copy of the sheet holding its header rows and only the body rows the view shows, in view order. */
+export const applySheetView = (sheet: SheetData, view: SheetView | undefined): SheetData => {
+    if (!isViewActive(view)) return sheet;
+    const headerRowCount = Math.max(1, Math.min(sheet.headerRowCount ?? 1, sheet.data.length));
+    const data = withoutBodyRowSpans(sheet.data, headerRowCount);
+    return {
+        ...sheet,
+        data: [...data.slice(0, headerRowCount), ...getVisibleRowIndexes(sheet, view).map(r => data[r])],
+    };
+};
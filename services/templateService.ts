@@ -0,0 +1,77 @@
+import type { ExtractionTemplate, RawSheetData } from '../types';
+import { normalizeLabel } from './sheetUtils';
+
+const TEMPLATES_STORAGE_KEY = 'extraction-templates';
+
+export const loadTemplates = (): ExtractionTemplate[] => {
+    try {
+        const saved = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+        return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+        console.error("Failed to load extraction templates:", error);
+        localStorage.removeItem(TEMPLATES_STORAGE_KEY);
+        return [];
+    }
+};
+
+export const saveTemplates = (templates: ExtractionTemplate[]) => {
+    try {
+        localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+        console.error("Failed to save extraction templates:", error);
+    }
+};
+
+export const createEmptyTemplate = (): ExtractionTemplate => ({
+    id: `template-${Date.now()}`,
+    name: '',
+    columns: [{ name: '', type: 'text', synonyms: [] }],
+    hints: '',
+});
+
+/** Describes the target columns for the model, in order, with their types and alternative labels. */
+export const buildTemplateInstructions = (template: ExtractionTemplate): string => {
+    const columns = template.columns.map((col, i) => {
+        const synonyms = col.synonyms.length > 0 ? `; may be labelled ${col.synonyms.map(s => `'${s}'`).join(', ')}` : '';
+        return `${i + 1}. ${col.name} (${col.type}${synonyms})`;
+    }).join('\n');
+    const hints = template.hints.trim() ? `\nAdditional guidance: ${template.hints.trim()}` : '';
+    return `The documents follow the '${template.name}' layout. Extract rows using exactly these columns, in this order:\n${columns}\nLeave a cell empty when the document has no value for that column.${hints}`;
+};
+
+// Whole words only, so "date" matches "Invoice Date" but not "Update", and "no" does not match "Notes".
+const containsWords = (header: string, label: string) => ` ${header} `.includes(` ${label} `);
+
+/**
+ * Reorders and renames a sheet's columns to match the template, so the same template
+ * always produces the same headers regardless of how the document labels them.
+ * Sheets that share no column with the template are returned unchanged.
+ */
+export const conformSheetToTemplate = (sheet: RawSheetData, template: ExtractionTemplate): RawSheetData => {
+    // Grouped headers are flattened: the innermost header row carries the column labels.
+    const headerRows = sheet.headerRowCount ?? 1;
+    const headers = sheet.data[headerRows - 1].map(normalizeLabel);
+    const used = new Set<number>();
+    const mapping = template.columns.map(col => {
+        const labels = [col.name, ...col.synonyms].map(normalizeLabel).filter(Boolean);
+        let index = headers.findIndex((h, i) => !used.has(i) && labels.includes(h));
+        if (index < 0) index = headers.findIndex((h, i) => !used.has(i) && h !== '' && labels.some(l => containsWords(h, l)));
+        if (index >= 0) used.add(index);
+        return index;
+    });
+    if (mapping.every(index => index < 0)) return sheet;
+
+    const pick = <T>(row: T[] | undefined, empty: T) => mapping.map(index => index >= 0 ? row?.[index] ?? empty : empty);
+    const conformed: RawSheetData = {
+        sheetName: sheet.sheetName,
+        data: [template.columns.map(col => col.name), ...sheet.data.slice(headerRows).map(row => pick(row, ''))],
+        ...(sheet.sourcePage !== undefined && { sourcePage: sheet.sourcePage }),
+    };
+    if (sheet.confidence) {
+        conformed.confidence = [template.columns.map(() => null), ...sheet.confidence.slice(headerRows).map(row => pick<number | null>(row, null))];
+    }
+    if (sheet.sourceBoxes) {
+        conformed.sourceBoxes = [template.columns.map(() => null), ...sheet.sourceBoxes.slice(headerRows).map(row => pick(row, null))];
+    }
+    return conformed;
+};
@@ -0,0 +1,151 @@
+import type { RawSheetData } from '../types';
+import { headersMatch } from './sheetUtils';
+
+export interface PdfTextItem {
+    str: string;
+    transform: number[];
+    width: number;
+    height: number;
+}
+
+interface TextSegment {
+    text: string;
+    x0: number;
+    x1: number;
+}
+
+interface TextRow {
+    y: number;
+    height: number;
+    items: PdfTextItem[];
+}
+
+// Pages with fewer items than this are treated as scanned and sent to the AI instead.
+const MIN_TEXT_ITEMS = 4;
+const MIN_TABLE_ROWS = 2;
+const MIN_TABLE_COLUMNS = 2;
+// Share of multi-segment rows that must have the most common number of segments; prose and
+// scattered labels rarely line up this well, so such pages go to the AI instead.
+const MIN_COLUMN_CONSISTENCY = 0.6;
+
+const median = (values: number[]): number => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+const groupIntoRows = (items: PdfTextItem[], lineHeight: number): TextRow[] => {
+    const sorted = [...items].sort((a, b) => b.transform[5] - a.transform[5] || a.transform[4] - b.transform[4]);
+    const rows: TextRow[] = [];
+    for (const item of sorted) {
+        const y = item.transform[5];
+        const row = rows[rows.length - 1];
+        if (row && Math.abs(row.y - y) <= lineHeight * 0.5) {
+            row.items.push(item);
+        } else {
+            rows.push({ y, height: item.height || lineHeight, items: [item] });
+        }
+    }
+    return rows;
+};
+
+// Joins items on the same line that are separated by a word gap rather than a column gutter.
+const groupIntoSegments = (row: TextRow, lineHeight: number): TextSegment[] => {
+    const items = [...row.items].sort((a, b) => a.transform[4] - b.transform[4]);
+    const segments: TextSegment[] = [];
+    for (const item of items) {
+        const x0 = item.transform[4];
+        const x1 = x0 + item.width;
+        const last = segments[segments.length - 1];
+        if (last && x0 - last.x1 < lineHeight * 0.8) {
+            last.text += (x0 - last.x1 > lineHeight * 0.15 ? ' ' : '') + item.str.trim();
+            last.x1 = Math.max(last.x1, x1);
+        } else {
+            segments.push({ text: item.str.trim(), x0, x1 });
+        }
+    }
+    return segments;
+};
+
+const mostCommon = (values: number[]): number => {
+    const counts = new Map<number, number>();
+    values.forEach(v => counts.set(v, (counts.get(v) ?? 0) + 1));
+    return [...counts.entries()].reduce((best, entry) => entry[1] > best[1] ? entry : best, [0, 0])[0];
+};
+
+// A segment goes into the first column it overlaps, or the nearest one when it sits in a gutter.
+const findColumnIndex = (segment: TextSegment, columns: { x0: number; x1: number }[]): number => {
+    const overlapping = columns.findIndex(col => segment.x0 <= col.x1 && segment.x1 >= col.x0);
+    if (overlapping >= 0) return overlapping;
+    const distance = (col: { x0: number; x1: number }) => Math.min(Math.abs(segment.x0 - col.x1), Math.abs(segment.x1 - col.x0));
+    return columns.reduce((best, col, index) => distance(col) < distance(columns[best]) ? index : best, 0);
+};
+
+// Column boundaries are the gutters left uncovered by every table row's segments.
+const findColumnRanges = (tableRows: TextSegment[][]): { x0: number; x1: number }[] => {
+    const intervals = tableRows.flat().map(s => ({ x0: s.x0, x1: s.x1 })).sort((a, b) => a.x0 - b.x0);
+    const ranges: { x0: number; x1: number }[] = [];
+    for (const interval of intervals) {
+        const last = ranges[ranges.length - 1];
+        if (last && interval.x0 <= last.x1) {
+            last.x1 = Math.max(last.x1, interval.x1);
+        } else {
+            ranges.push({ ...interval });
+        }
+    }
+    return ranges;
+};
+
+/**
+ * Rebuilds a table from the positioned text items of a single PDF page. Columns come from
+ * the rows with several segments; single-segment rows between the first and last of those,
+ * such as wrapped text or merged cells, are kept in the column they line up with.
+ * Returns null when the page has no usable text layer or no consistent grid,
+ * in which case the caller should fall back to image-based extraction.
+ */
+export const extractTableFromTextItems = (items: PdfTextItem[]): string[][] | null => {
+    const textItems = items.filter(item => item.str && item.str.trim() !== '');
+    if (textItems.length < MIN_TEXT_ITEMS) return null;
+
+    const lineHeight = median(textItems.map(item => item.height).filter(h => h > 0)) || 10;
+    const rows = groupIntoRows(textItems, lineHeight).map(row => groupIntoSegments(row, lineHeight));
+    const tableRows = rows.filter(segments => segments.length >= MIN_TABLE_COLUMNS);
+    if (tableRows.length < MIN_TABLE_ROWS) return null;
+
+    const typicalCount = mostCommon(tableRows.map(segments => segments.length));
+    const consistentRows = tableRows.filter(segments => segments.length === typicalCount).length;
+    if (consistentRows < MIN_TABLE_ROWS || consistentRows / tableRows.length < MIN_COLUMN_CONSISTENCY) return null;
+
+    const columns = findColumnRanges(tableRows);
+    if (columns.length < MIN_TABLE_COLUMNS) return null;
+
+    const first = rows.indexOf(tableRows[0]);
+    const last = rows.indexOf(tableRows[tableRows.length - 1]);
+    return rows.slice(first, last + 1).map(segments => {
+        const cells = columns.map(() => '');
+        for (const segment of segments) {
+            const columnIndex = findColumnIndex(segment, columns);
+            cells[columnIndex] = cells[columnIndex] ? `${cells[columnIndex]} ${segment.text}` : segment.text;
+        }
+        return cells;
+    });
+};
+
+/**
+ * Turns per-page tables into sheets, continuing a sheet across consecutive pages
+ * whose tables repeat the same header row.
+ */
+export const buildSheetsFromPageTables = (pageTables: { pageNum: number; table: string[][] }[]): RawSheetData[] => {
+    const sheets: RawSheetData[] = [];
+    let previousPageNum = -1;
+    for (const { pageNum, table } of pageTables) {
+        const last = sheets[sheets.length - 1];
+        if (last && pageNum === previousPageNum + 1 && headersMatch(last.data[0], table[0])) {
+            last.data.push(...table.slice(1));
+        } else {
+            sheets.push({ sheetName: `Page ${pageNum} Table`, data: table, sourcePage: pageNum });
+        }
+        previousPageNum = pageNum;
+    }
+    return sheets;
+};
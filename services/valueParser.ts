@@ -0,0 +1,233 @@
+import type { ColumnType, SheetData } from '../types';
+
+export const COLUMN_TYPES: ColumnType[] = ['text', 'integer', 'decimal', 'currency', 'percent', 'date', 'boolean'];
+
+export const SUPPORTED_LOCALES = ['en-US', 'en-GB', 'en-IN', 'de-DE', 'fr-FR', 'es-ES', 'it-IT', 'nl-NL', 'pt-BR', 'ja-JP'];
+
+export const getDefaultLocale = (): string => {
+    const browserLocale = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+    return SUPPORTED_LOCALES.find(l => l === browserLocale)
+        ?? SUPPORTED_LOCALES.find(l => l.split('-')[0] === browserLocale.split('-')[0])
+        ?? 'en-US';
+};
+
+// Share of non-blank cells that must parse as a type before a column is inferred as that type.
+const INFERENCE_RATIO = 0.9;
+
+const CURRENCY_PATTERN = /[$€£¥₹₩₽₺₪₫]|\b(USD|EUR|GBP|JPY|INR|CHF|CAD|AUD|BRL)\b|R\$/i;
+const TRUE_VALUES = ['true', 'yes', 'y'];
+const FALSE_VALUES = ['false', 'no', 'n'];
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+export interface ParsedNumber {
+    value: number;
+    isPercent: boolean;
+    currencySymbol: string | null;
+}
+
+const separatorCache = new Map<string, { group: string; decimal: string }>();
+
+const getSeparators = (locale: string) => {
+    let separators = separatorCache.get(locale);
+    if (!separators) {
+        const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+        separators = {
+            group: parts.find(p => p.type === 'group')?.value ?? ',',
+            decimal: parts.find(p => p.type === 'decimal')?.value ?? '.',
+        };
+        separatorCache.set(locale, separators);
+    }
+    return separators;
+};
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parses numbers as they appear in financial documents: grouping separators, the
+ * locale's decimal mark, currency symbols or codes, trailing percent signs, and
+ * negatives written as "(500)", "-500" or "500-".
+ */
+export const parseLocaleNumber = (raw: string, locale: string): ParsedNumber | null => {
+    let text = raw.trim();
+    if (text === '') return null;
+
+    const currencyMatch = text.match(CURRENCY_PATTERN);
+    const currencySymbol = currencyMatch ? currencyMatch[0] : null;
+    if (currencyMatch) text = text.replace(CURRENCY_PATTERN, '');
+
+    let negative = false;
+    text = text.replace(/[\s\u00a0\u202f]/g, '');
+    if (/^\(.*\)$/.test(text)) {
+        negative = true;
+        text = text.slice(1, -1);
+    }
+    if (text.endsWith('-')) {
+        negative = true;
+        text = text.slice(0, -1);
+    }
+
+    const isPercent = text.endsWith('%');
+    if (isPercent) text = text.slice(0, -1);
+
+    if (text.startsWith('-') || text.startsWith('−')) {
+        negative = !negative;
+        text = text.slice(1);
+    } else if (text.startsWith('+')) {
+        text = text.slice(1);
+    }
+
+    const { group, decimal } = getSeparators(locale);
+    const decimalIndex = text.lastIndexOf(decimal);
+    const integerPart = decimalIndex >= 0 ? text.slice(0, decimalIndex) : text;
+    const fractionPart = decimalIndex >= 0 ? text.slice(decimalIndex + 1) : '';
+    if (decimalIndex >= 0 && !/^\d+$/.test(fractionPart)) return null;
+
+    // Group separators must sit between digit groups (Western 3-digit or Indian 2-digit); apostrophes are accepted too.
+    const groupChars = `[${escapeRegExp(group)}']`;
+    const integerPattern = new RegExp(`^(\\d+|\\d{1,3}(?:${groupChars}\\d{2})*${groupChars}\\d{3})$`);
+    if (integerPart === '' ? decimalIndex < 0 : !integerPattern.test(integerPart)) return null;
+    // Zero-padded codes such as "00123" are identifiers, not numbers.
+    if (/^0\d/.test(integerPart)) return null;
+
+    const digits = integerPart.replace(new RegExp(groupChars, 'g'), '') || '0';
+    const value = (negative ? -1 : 1) * parseFloat(`${digits}.${fractionPart || '0'}`);
+    return { value: isPercent ? value / 100 : value, isPercent, currencySymbol };
+};
+
+const dateOrderCache = new Map<string, ('day' | 'month' | 'year')[]>();
+
+const getDateOrder = (locale: string) => {
+    let order = dateOrderCache.get(locale);
+    if (!order) {
+        order = new Intl.DateTimeFormat(locale).formatToParts(new Date(2000, 10, 22))
+            .map(p => p.type)
+            .filter((t): t is 'day' | 'month' | 'year' => t === 'day' || t === 'month' || t === 'year');
+        dateOrderCache.set(locale, order);
+    }
+    return order;
+};
+
+const buildDate = (year: number, month: number, day: number): Date | null => {
+    if (year < 100) year += year < 50 ? 2000 : 1900;
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+    return date;
+};
+
+/** Parses ISO dates, numeric dates in the locale's field order, and English month-name dates. Returns a UTC date. */
+export const parseLocaleDate = (raw: string, locale: string): Date | null => {
+    const text = raw.trim();
+    if (text === '') return null;
+
+    let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ].*)?$/);
+    if (match) return buildDate(+match[1], +match[2], +match[3]);
+
+    match = text.match(/^(\d{1,4})[./-](\d{1,2})[./-](\d{1,4})$/);
+    if (match) {
+        const fields = [+match[1], +match[2], +match[3]];
+        if (match[1].length === 4) return buildDate(fields[0], fields[1], fields[2]);
+        const order = getDateOrder(locale).filter(t => t !== 'year');
+        const dayFirst = order[0] === 'day';
+        return buildDate(fields[2], dayFirst ? fields[1] : fields[0], dayFirst ? fields[0] : fields[1]);
+    }
+
+    match = text.match(/^(\d{1,2})[\s-]+([a-z]{3})[a-z]*\.?[\s,-]+(\d{2,4})$/i);
+    if (match && MONTHS.includes(match[2].toLowerCase())) {
+        return buildDate(+match[3], MONTHS.indexOf(match[2].toLowerCase()) + 1, +match[1]);
+    }
+    match = text.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{2,4})$/i);
+    if (match && MONTHS.includes(match[1].toLowerCase())) {
+        return buildDate(+match[3], MONTHS.indexOf(match[1].toLowerCase()) + 1, +match[2]);
+    }
+    return null;
+};
+
+export const parseBoolean = (raw: string): boolean | null => {
+    const text = raw.trim().toLowerCase();
+    if (TRUE_VALUES.includes(text)) return true;
+    if (FALSE_VALUES.includes(text)) return false;
+    return null;
+};
+
+export type TypedValue = number | boolean | Date;
+
+/** Converts a cell's text to the native value for its column type, or null if it does not parse. */
+export const parseTypedValue = (raw: string, type: ColumnType, locale: string): TypedValue | null => {
+    switch (type) {
+        case 'boolean': return parseBoolean(raw);
+        case 'date': return parseLocaleDate(raw, locale);
+        case 'integer': {
+            const parsed = parseLocaleNumber(raw, locale);
+            return parsed && Number.isInteger(parsed.value) ? parsed.value : null;
+        }
+        case 'decimal':
+        case 'currency':
+        case 'percent':
+            return parseLocaleNumber(raw, locale)?.value ?? null;
+        default:
+            return null;
+    }
+};
+
+export const inferColumnType = (values: string[], locale: string): ColumnType => {
+    const nonBlank = values.filter(v => v.trim() !== '');
+    if (nonBlank.length === 0) return 'text';
+    const required = Math.ceil(nonBlank.length * INFERENCE_RATIO);
+    const count = (predicate: (v: string) => boolean) => nonBlank.filter(predicate).length;
+
+    if (count(v => parseBoolean(v) !== null) >= required) return 'boolean';
+    if (count(v => parseLocaleDate(v, locale) !== null) >= required) return 'date';
+
+    const numbers = nonBlank.map(v => parseLocaleNumber(v, locale)).filter((n): n is ParsedNumber => n !== null);
+    if (numbers.length < required) return 'text';
+    if (numbers.some(n => n.isPercent)) return 'percent';
+    if (numbers.some(n => n.currencySymbol)) return 'currency';
+    if (numbers.every(n => Number.isInteger(n.value))) return 'integer';
+    return 'decimal';
+};
+
+/** Infers a type for every column from the data rows, skipping the header rows. */
+export const inferColumnTypes = (data: { value: string }[][], locale: string, headerRowCount = 1): ColumnType[] => {
+    const columnCount = Math.max(0, ...data.map(row => row.length));
+    return Array.from({ length: columnCount }, (_, c) =>
+        inferColumnType(data.slice(headerRowCount).map(row => row[c]?.value ?? ''), locale)
+    );
+};
+
+export const findCurrencySymbol = (values: string[]): string | null => {
+    for (const value of values) {
+        const match = value.match(CURRENCY_PATTERN);
+        if (match) return match[0];
+    }
+    return null;
+};
+
+export const getExcelNumberFormat = (type: ColumnType, currencySymbol: string | null = null): string | null => {
+    switch (type) {
+        case 'integer': return '#,##0';
+        case 'decimal': return '#,##0.00';
+        case 'currency': return currencySymbol ? `"${currencySymbol}"#,##0.00` : '#,##0.00';
+        case 'percent': return '0.00%';
+        case 'date': return 'yyyy-mm-dd';
+        default: return null;
+    }
+};
+
+/**
+ * A cell's value as it is written to an Excel workbook, and so as formulas there read it. Body cells
+ * that parse as their column's type take that type and the rest stay text; sheets without column
+ * types store whatever is a plain number as one.
+ */
+export const toWorkbookValue = (sheet: SheetData, row: number, col: number, locale: string): TypedValue | string => {
+    const raw = sheet.data[row]?.[col]?.value ?? '';
+    if (!sheet.columnTypes) {
+        const number = Number(raw);
+        return raw.trim() !== '' && !isNaN(number) ? number : raw;
+    }
+    const columnType = row >= (sheet.headerRowCount ?? 1) ? sheet.columnTypes[col] : undefined;
+    return (columnType ? parseTypedValue(raw, columnType, locale) : null) ?? raw;
+};
+
+// Excel stores dates as days since 1899-12-30.
+export const toExcelSerialDate = (date: Date): number =>
+    (date.getTime() - Date.UTC(1899, 11, 30)) / 86400000;
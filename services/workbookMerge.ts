@@ -0,0 +1,171 @@
+import type { SheetMergeMode, TargetWorkbook } from '../types';
+
+// SheetJS comes from an untyped global build; these cover the parts of its objects used here.
+type CellAddress = { r: number; c: number };
+type CellRange = { s: CellAddress; e: CellAddress };
+type Cell = { t?: string; v?: unknown; w?: string; f?: string; z?: string };
+type ColumnInfo = { wch?: number; wpx?: number };
+type Worksheet = {
+    '!ref'?: string;
+    '!cols'?: ColumnInfo[];
+    '!merges'?: CellRange[];
+    [address: string]: Cell | string | ColumnInfo[] | CellRange[] | undefined;
+};
+type Workbook = { SheetNames: string[]; Sheets: Record<string, Worksheet> };
+type SheetUtils = {
+    decode_range: (ref: string) => CellRange;
+    encode_range: (range: CellRange) => string;
+    encode_cell: (address: CellAddress) => string;
+};
+
+export const MAX_SHEET_NAME_LENGTH = 31;
+
+/** Strips the characters Excel forbids in sheet names and cuts the name to 31 characters. */
+export const sanitizeSheetName = (name: string) => name.replace(/[/\\?*:[\]]/g, '').substring(0, MAX_SHEET_NAME_LENGTH);
+
+const findSheetName = (names: string[], name: string) => names.find(n => n.toLowerCase() === name.toLowerCase());
+
+/** Numbers a sheet name until none of `existingNames` has it, keeping within Excel's 31 characters. */
+export const getUniqueSheetName = (existingNames: string[], name: string): string => {
+    const base = name || 'Sheet';
+    if (!findSheetName(existingNames, base)) return base;
+    for (let n = 2; ; n++) {
+        const suffix = ` (${n})`;
+        const candidate = base.substring(0, MAX_SHEET_NAME_LENGTH - suffix.length) + suffix;
+        if (!findSheetName(existingNames, candidate)) return candidate;
+    }
+};
+
+const cellAt = (ws: Worksheet, address: string) => ws[address] as Cell | undefined;
+
+const headerKey = (cell: Cell | undefined): string => cell ? String(cell.w ?? cell.v ?? '').trim().toLowerCase() : '';
+
+/**
+ * Appends the data rows of `source` below the last used row of `target`. Each source column goes
+ * under the target column whose header (on the target's first row) matches its last header row;
+ * columns without a match are added to the right of the target's used range, header included.
+ */
+const appendRows = (target: Worksheet, source: Worksheet, headerRowCount: number) => {
+    // @ts-ignore
+    const { decode_range, encode_range, encode_cell }: SheetUtils = XLSX.utils;
+    const t = decode_range(target['!ref']!);
+    const s = decode_range(source['!ref']!);
+
+    const targetColumns = new Map<string, number>();
+    for (let c = t.s.c; c <= t.e.c; c++) {
+        const key = headerKey(cellAt(target, encode_cell({ r: t.s.r, c })));
+        if (key && !targetColumns.has(key)) targetColumns.set(key, c);
+    }
+
+    const usedColumns = new Set<number>();
+    const columnMap: number[] = [];
+    let nextColumn = t.e.c + 1;
+    for (let c = s.s.c; c <= s.e.c; c++) {
+        const header = cellAt(source, encode_cell({ r: Math.max(0, headerRowCount - 1), c }));
+        let column = targetColumns.get(headerKey(header));
+        if (column === undefined || usedColumns.has(column)) {
+            column = nextColumn++;
+            if (header) target[encode_cell({ r: t.s.r, c: column })] = { ...header };
+            const width = source['!cols']?.[c];
+            if (width) (target['!cols'] = target['!cols'] || [])[column] = { ...width };
+        }
+        usedColumns.add(column);
+        columnMap[c] = column;
+    }
+
+    // Formulas refer to the source layout, so appended cells keep only their computed values.
+    const rowOffset = t.e.r + 1 - headerRowCount;
+    for (let r = headerRowCount; r <= s.e.r; r++) {
+        for (let c = s.s.c; c <= s.e.c; c++) {
+            const cell = cellAt(source, encode_cell({ r, c }));
+            if (!cell) continue;
+            const { f, ...value } = cell;
+            target[encode_cell({ r: r + rowOffset, c: columnMap[c] })] = value;
+        }
+    }
+
+    // A merge only survives when its columns still sit side by side in the target.
+    const merges = (source['!merges'] || [])
+        .filter(m => m.s.r >= headerRowCount && columnMap[m.e.c] - columnMap[m.s.c] === m.e.c - m.s.c)
+        .map(m => ({ s: { r: m.s.r + rowOffset, c: columnMap[m.s.c] }, e: { r: m.e.r + rowOffset, c: columnMap[m.e.c] } }));
+    if (merges.length > 0) target['!merges'] = [...(target['!merges'] || []), ...merges];
+
+    target['!ref'] = encode_range({ s: t.s, e: { r: Math.max(t.e.r, s.e.r + rowOffset), c: Math.max(t.e.c, nextColumn - 1) } });
+};
+
+/**
+ * Places a worksheet in a workbook. With `replace` or `append-rows` the sheet of the same name
+ * (compared case-insensitively) is overwritten or extended; otherwise, or when there is no such
+ * sheet, the worksheet is added under a name made unique. Returns the name it ended up under.
+ */
+export const addSheetToWorkbook = (wb: Workbook, ws: Worksheet, name: string, mode: SheetMergeMode, headerRowCount: number): string => {
+    const existing = name ? findSheetName(wb.SheetNames, name) : undefined;
+    if (existing && mode !== 'new-sheet') {
+        if (mode === 'append-rows' && wb.Sheets[existing]['!ref'] && ws['!ref']) {
+            appendRows(wb.Sheets[existing], ws, headerRowCount);
+        } else {
+            wb.Sheets[existing] = ws;
+        }
+        return existing;
+    }
+    const uniqueName = getUniqueSheetName(wb.SheetNames, name);
+    // @ts-ignore
+    XLSX.utils.book_append_sheet(wb, ws, uniqueName);
+    return uniqueName;
+};
+
+// Package parts, and elements inside sheets, that SheetJS reads past and so leaves out when it writes the workbook again.
+const UNSUPPORTED_PARTS: [RegExp, string][] = [
+    [/^xl\/charts\//, 'charts'],
+    [/^xl\/media\//, 'images'],
+    [/^xl\/pivotTables\//, 'pivot tables'],
+    [/^xl\/tables\//, 'tables'],
+];
+const UNSUPPORTED_SHEET_ELEMENTS: [string, string][] = [
+    ['<dataValidations', 'data validation'],
+    ['<conditionalFormatting', 'conditional formatting'],
+];
+
+// Looks inside the package for what a merged download would drop; anything unreadable reports nothing.
+const findUnsupportedFeatures = async (data: ArrayBuffer): Promise<string[]> => {
+    let zip;
+    try {
+        // @ts-ignore
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        return [];
+    }
+    const paths = Object.keys(zip.files);
+    const features = new Set<string>();
+    for (const [pattern, feature] of UNSUPPORTED_PARTS) {
+        if (paths.some(path => pattern.test(path))) features.add(feature);
+    }
+    // Every workbook has the default cell format; any more means some cells are formatted.
+    const styles: string | undefined = await zip.file('xl/styles.xml')?.async('string');
+    const formatCount = styles?.match(/<cellXfs[^>]*\bcount="(\d+)"/);
+    if (formatCount && Number(formatCount[1]) > 1) features.add('cell formatting');
+    for (const path of paths.filter(path => /^xl\/worksheets\/[^/]+\.xml$/.test(path))) {
+        const xml: string = await zip.file(path).async('string');
+        for (const [element, feature] of UNSUPPORTED_SHEET_ELEMENTS) {
+            if (xml.includes(element)) features.add(feature);
+        }
+    }
+    return Array.from(features);
+};
+
+/** Reads an uploaded workbook as a merge target. Throws when the file is not a readable workbook. */
+export const readTargetWorkbook = async (file: File): Promise<TargetWorkbook> => {
+    const data = await file.arrayBuffer();
+    // @ts-ignore
+    const wb: Workbook = XLSX.read(data, { type: 'array', bookSheets: true });
+    if (!wb.SheetNames || wb.SheetNames.length === 0) throw new Error(`"${file.name}" contains no sheets.`);
+    const unsupportedFeatures = await findUnsupportedFeatures(data);
+    return { fileName: file.name, data, sheetNames: wb.SheetNames, defaultMode: 'new-sheet', sheetModes: {}, unsupportedFeatures };
+};
+
+/** Opens a fresh copy of the target workbook, so every export starts from the uploaded file. */
+export const openTargetWorkbook = (target: TargetWorkbook): Workbook => {
+    // cellNF keeps the target's number formats and cellStyles its column widths.
+    // @ts-ignore
+    return XLSX.read(target.data, { type: 'array', cellNF: true, cellStyles: true });
+};
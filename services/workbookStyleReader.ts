@@ -0,0 +1,102 @@
+import type { CellStyle } from '../types';
+
+const parseXml = (text: string) => new DOMParser().parseFromString(text, 'application/xml');
+
+// Workbooks written by some tools prefix SpreadsheetML elements, so match on local names only.
+const children = (node: Element | Document, localName: string): Element[] =>
+    Array.from(node.getElementsByTagNameNS('*', localName));
+
+const first = (node: Element | Document, localName: string): Element | undefined => children(node, localName)[0];
+
+// <b/>, <i/> and <strike/> are on unless val says otherwise; <u/> is on unless val="none".
+const isOn = (el: Element | undefined, offValues = ['0', 'false']) => !!el && !offValues.includes(el.getAttribute('val') ?? '');
+
+const readRgb = (el: Element | undefined): string | null => {
+    const rgb = el?.getAttribute('rgb');
+    return rgb && /^[0-9a-f]{8}$/i.test(rgb) ? `#${rgb.slice(2).toLowerCase()}` : null;
+};
+
+const readFont = (font: Element): CellStyle => {
+    const style: CellStyle = {};
+    if (isOn(first(font, 'b'))) style.bold = true;
+    if (isOn(first(font, 'i'))) style.italic = true;
+    if (isOn(first(font, 'u'), ['none'])) style.underline = true;
+    if (isOn(first(font, 'strike'))) style.strikethrough = true;
+    // Theme and indexed colors would need the theme part; only explicit RGB colors are kept.
+    const color = readRgb(first(font, 'color'));
+    if (color && color !== '#000000') style.color = color;
+    return style;
+};
+
+// Only solid fills carry a plain background color; pattern fills are dropped.
+const readFill = (fill: Element): string | null => {
+    const pattern = first(fill, 'patternFill');
+    if (pattern?.getAttribute('patternType') !== 'solid') return null;
+    return readRgb(first(pattern, 'fgColor'));
+};
+
+const readCellFormats = (stylesXml: Document): (CellStyle | null)[] => {
+    const fontsEl = first(stylesXml, 'fonts');
+    const fonts = fontsEl ? children(fontsEl, 'font').map(readFont) : [];
+    const fillsEl = first(stylesXml, 'fills');
+    const fills = fillsEl ? children(fillsEl, 'fill').map(readFill) : [];
+    const cellXfs = first(stylesXml, 'cellXfs');
+    if (!cellXfs) return [];
+    return children(cellXfs, 'xf').map(xf => {
+        const style: CellStyle = { ...(fonts[Number(xf.getAttribute('fontId') ?? 0)] ?? {}) };
+        const fill = fills[Number(xf.getAttribute('fillId') ?? 0)];
+        if (fill) style.fill = fill;
+        const horizontal = first(xf, 'alignment')?.getAttribute('horizontal');
+        if (horizontal === 'left' || horizontal === 'center' || horizontal === 'right') style.align = horizontal;
+        return Object.keys(style).length > 0 ? style : null;
+    });
+};
+
+const resolveTarget = (target: string) => target.startsWith('/') ? target.slice(1) : `xl/${target.replace(/^\.\//, '')}`;
+
+/**
+ * Reads the font, fill and alignment formatting of every styled cell in an .xlsx workbook, keyed by
+ * sheet name and then A1 reference. SheetJS does not expose these, so the package is read directly.
+ * Returns an empty map for anything that is not an OOXML package.
+ */
+export const readXlsxCellStyles = async (data: ArrayBuffer): Promise<Map<string, Map<string, CellStyle>>> => {
+    const result = new Map<string, Map<string, CellStyle>>();
+    let zip;
+    try {
+        // @ts-ignore
+        zip = await JSZip.loadAsync(data);
+    } catch {
+        return result;
+    }
+    const readPart = async (path: string) => {
+        const file = zip.file(path);
+        return file ? parseXml(await file.async('string')) : null;
+    };
+
+    const [workbook, rels, styles] = await Promise.all([
+        readPart('xl/workbook.xml'),
+        readPart('xl/_rels/workbook.xml.rels'),
+        readPart('xl/styles.xml'),
+    ]);
+    if (!workbook || !rels || !styles) return result;
+
+    const formats = readCellFormats(styles);
+    const targets = new Map(children(rels, 'Relationship').map(rel => [rel.getAttribute('Id'), rel.getAttribute('Target') ?? '']));
+
+    for (const sheet of children(workbook, 'sheet')) {
+        const name = sheet.getAttribute('name') ?? '';
+        const relId = sheet.getAttribute('r:id') ?? sheet.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id');
+        const target = relId ? targets.get(relId) : undefined;
+        const sheetXml = target ? await readPart(resolveTarget(target)) : null;
+        if (!sheetXml) continue;
+
+        const cellStyles = new Map<string, CellStyle>();
+        for (const cell of children(sheetXml, 'c')) {
+            const ref = cell.getAttribute('r');
+            const style = formats[Number(cell.getAttribute('s') ?? 0)];
+            if (ref && style) cellStyles.set(ref, style);
+        }
+        result.set(name, cellStyles);
+    }
+    return result;
+};
@@ -5,22 +5,158 @@ export interface CellStyle {
   underline?: boolean;
   strikethrough?: boolean;
   color?: string;
+  fill?: string;
   align?: 'left' | 'center' | 'right';
 }
 
+// Normalized to the page: x, y, width and height are fractions of the page size.
+export interface BoundingBox {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface CellData {
   value: string;
   style?: CellStyle;
+  confidence?: number;
+  sourceBox?: BoundingBox;
+  // Set on the top-left cell of a merged range; the cells it covers stay in the grid, empty.
+  rowSpan?: number;
+  colSpan?: number;
+  // Excel number format code kept from a source workbook, e.g. '#,##0.00 "kg"'.
+  numberFormat?: string;
+}
+
+export interface CellMerge {
+  row: number;
+  col: number;
+  rowSpan: number;
+  colSpan: number;
 }
 
+export type ColumnType = 'text' | 'integer' | 'decimal' | 'currency' | 'percent' | 'date' | 'boolean';
+
 export interface SheetData {
   sheetName: string;
   data: CellData[][];
+  columnTypes?: ColumnType[];
+  locale?: string;
+  headerRowCount?: number;
+  // Column widths in characters, as Excel measures them.
+  columnWidths?: number[];
+}
+
+/** A change to the rows or columns of a sheet. Row and column indexes are zero-based positions in `data`. */
+export type StructuralEdit =
+  | { type: 'insert-row'; index: number }
+  | { type: 'delete-rows'; start: number; count: number }
+  | { type: 'duplicate-row'; index: number }
+  | { type: 'move-row'; from: number; to: number }
+  | { type: 'insert-column'; index: number }
+  | { type: 'delete-columns'; start: number; count: number }
+  | { type: 'move-column'; from: number; to: number }
+  | { type: 'promote-to-header'; index: number };
+
+export type SortDirection = 'asc' | 'desc';
+
+/** A condition on one column's values; rows that fail any filter of a view are hidden. */
+export type ColumnFilter =
+  | { kind: 'contains'; text: string }
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'blank' }
+  | { kind: 'not-blank' };
+
+/** How a sheet's body rows are ordered and filtered for display. It never changes the data itself. */
+export interface SheetView {
+  sort?: { column: number; direction: SortDirection };
+  filters: Record<number, ColumnFilter>;
+}
+
+export interface FindOptions {
+  query: string;
+  matchCase: boolean;
+  /** Only cells whose entire value matches are found. */
+  wholeCell: boolean;
+  useRegex: boolean;
+}
+
+export type FindScope = 'selection' | 'sheet' | 'all';
+
+export interface FindMatch {
+  sheetIndex: number;
+  row: number;
+  col: number;
+}
+
+export interface RawSheetData {
+  sheetName: string;
+  data: string[][];
+  confidence?: (number | null)[][];
+  sourceBoxes?: (BoundingBox | null)[][];
+  merges?: CellMerge[];
+  headerRowCount?: number;
+  styles?: (CellStyle | null)[][];
+  numberFormats?: (string | null)[][];
+  columnWidths?: number[];
+  /** The PDF page the sheet starts on, so sheets read in different ways can be put back in page order. */
+  sourcePage?: number;
+}
+
+export interface TemplateColumn {
+  name: string;
+  type: ColumnType;
+  synonyms: string[];
+}
+
+export interface ExtractionTemplate {
+  id: string;
+  name: string;
+  columns: TemplateColumn[];
+  hints: string;
+}
+
+export interface ExtractionRequest {
+  images: string[];
+  template?: ExtractionTemplate;
+  signal?: AbortSignal;
+}
+
+export interface FormField {
+  label: string;
+  value: string;
+  confidence?: number;
 }
 
-export type ProcessJobStatus = 'queued' | 'processing' | 'success' | 'error';
+export type FormLayout = 'two-column' | 'one-row';
+
+export interface ExtractionProvider {
+  id: string;
+  name: string;
+  extract: (request: ExtractionRequest) => Promise<RawSheetData[]>;
+  extractFields: (request: ExtractionRequest) => Promise<FormField[]>;
+}
+
+export type ExtractionErrorCode =
+  | 'rate_limit'
+  | 'network'
+  | 'service_unavailable'
+  | 'malformed_response'
+  | 'empty_response'
+  | 'safety_block'
+  | 'no_tables'
+  | 'no_fields'
+  | 'invalid_document'
+  | 'configuration'
+  | 'interrupted'
+  | 'cancelled'
+  | 'unknown';
+
+export type ProcessJobStatus = 'queued' | 'processing' | 'success' | 'error' | 'cancelled';
 
-export type ConversionMode = 'pdf-to-excel' | 'excel-to-pdf';
+export type ConversionMode = 'pdf-to-excel' | 'form-to-excel' | 'excel-to-pdf';
 
 export interface PdfOptions {
   orientation: 'p' | 'l';
@@ -28,6 +164,41 @@ export interface PdfOptions {
   autoWidth: boolean;
 }
 
+export type ExportFormat = 'xlsx' | 'ods' | 'csv' | 'tsv' | 'json' | 'ndjson' | 'md' | 'html' | 'docx';
+
+/** How multi-job downloads are packaged: one output per job, or one combined output with a tab per file or per sheet. */
+export type BatchLayout = 'separate' | 'tab-per-file' | 'tab-per-sheet';
+
+/** How an extracted sheet is placed in an uploaded target workbook. */
+export type SheetMergeMode = 'new-sheet' | 'append-rows' | 'replace';
+
+/** An existing .xlsx workbook that Excel downloads are merged into instead of a new workbook. */
+export interface TargetWorkbook {
+  fileName: string;
+  data: ArrayBuffer;
+  sheetNames: string[];
+  defaultMode: SheetMergeMode;
+  /** Per extracted sheet name; sheets not listed use `defaultMode`. */
+  sheetModes: Record<string, SheetMergeMode>;
+  /** What the workbook has that SheetJS cannot write back, such as charts, so merged downloads lose it. */
+  unsupportedFeatures: string[];
+}
+
+export type TableCopyFormat = 'tsv' | 'html' | 'markdown';
+
+/** A rectangular block of cells, given by its top-left and bottom-right positions (inclusive). */
+export interface CellRange {
+  start: { row: number; col: number };
+  end: { row: number; col: number };
+}
+
+export interface CsvOptions {
+  delimiter: string;
+  quoteAll: boolean;
+  includeBom: boolean;
+  lineEnding: 'crlf' | 'lf';
+}
+
 export interface ProcessJob {
   id: string;
   file?: File;
@@ -36,11 +207,17 @@ export interface ProcessJob {
   status: ProcessJobStatus;
   conversionMode: ConversionMode;
   extractedSheets?: SheetData[] | null;
+  formFields?: FormField[] | null;
+  /** The layout `extractedSheets` was built with from `formFields`, so edits can be read back. */
+  formLayout?: FormLayout;
   errorMessage?: string | null;
+  errorCode?: ExtractionErrorCode | null;
+  attempts?: number;
   thumbnailUrls?: string[] | null;
   currentThumbnailIndex?: number;
   pdfPageCount?: number;
   pageRange?: string;
   progressMessage?: string;
   pdfOptions?: PdfOptions;
+  templateId?: string;
 }
\ No newline at end of file
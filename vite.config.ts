@@ -12,7 +12,11 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.EXTRACTION_PROVIDER': JSON.stringify(env.EXTRACTION_PROVIDER),
+        'process.env.RECORD_EXTRACTIONS': JSON.stringify(env.RECORD_EXTRACTIONS),
+        'process.env.EXTRACTION_BATCH_SIZE': JSON.stringify(env.EXTRACTION_BATCH_SIZE),
+        'process.env.EXTRACTION_CONCURRENCY': JSON.stringify(env.EXTRACTION_CONCURRENCY)
       },
       resolve: {
         alias: {